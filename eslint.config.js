@@ -33,6 +33,7 @@ module.exports = [
             'no-multi-spaces': ['error'],
             'prettier/prettier': 'error',
             ...typescriptPlugin.configs['recommended'].rules,
+            '@typescript-eslint/no-unused-vars': ['error', {ignoreRestSiblings: true}],
             ...prettier.rules,
         },
     },
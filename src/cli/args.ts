@@ -0,0 +1,164 @@
+import {parseArgs, ParseArgsConfig} from 'util';
+
+/**
+ * Thrown when the command line or the configuration is not valid.
+ */
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+export interface OptionSpec {
+    type: 'string' | 'boolean';
+    short?: string;
+    multiple?: boolean;
+    description: string;
+    // The placeholder shown in help for the value of a string option.
+    placeholder?: string;
+    // The values offered by shell completion.
+    choices?: string[];
+}
+
+export type OptionValues = Record<string, string | boolean | string[] | undefined>;
+
+export interface CommandLine {
+    command: string | null;
+    positionals: string[];
+    values: OptionValues;
+}
+
+export const GLOBAL_OPTIONS: Record<string, OptionSpec> = {
+    config: {
+        type: 'string',
+        short: 'c',
+        placeholder: '<path>',
+        description: 'Config file, by default ./gdrivevault.config.json',
+    },
+    folder: {
+        type: 'string',
+        short: 'f',
+        multiple: true,
+        placeholder: '<id>',
+        description: 'Drive folder to index; repeat for several roots',
+    },
+    database: {
+        type: 'string',
+        placeholder: '<path>',
+        description: 'SQLite database path',
+    },
+    downloads: {type: 'string', placeholder: '<path>', description: 'Download directory'},
+    credentials: {
+        type: 'string',
+        placeholder: '<path>',
+        description: 'OAuth client or service account key file',
+    },
+    token: {type: 'string', placeholder: '<path>', description: 'Saved token path'},
+    logs: {type: 'string', placeholder: '<path>', description: 'Log directory'},
+    auth: {
+        type: 'string',
+        placeholder: '<type>',
+        choices: ['browser', 'headless', 'service-account'],
+        description: 'How to sign in',
+    },
+    json: {type: 'boolean', description: 'Print results as JSON'},
+    verbose: {type: 'boolean', short: 'v', description: 'Print log messages to stderr'},
+    help: {type: 'boolean', short: 'h', description: 'Show help'},
+};
+
+/**
+ * Splits the command line into the command, its arguments and its options.
+ * Global options may come before or after the command.
+ * @param argv The arguments, without the node executable and script.
+ * @param getCommandOptions Returns the options of a command, or null if there
+ * is no such command.
+ * @returns The parsed command line.
+ * @throws UsageError when an option is unknown or misses its value.
+ */
+export function parseCommandLine(
+    argv: string[],
+    getCommandOptions: (command: string) => Record<string, OptionSpec> | null
+): CommandLine {
+    // A first lenient pass finds the command, skipping the values of global options.
+    const {tokens} = parseArgs({
+        args: argv,
+        options: toParseArgsOptions(GLOBAL_OPTIONS),
+        strict: false,
+        allowPositionals: true,
+        tokens: true,
+    });
+    const commandToken = tokens.find(token => token.kind === 'positional');
+    const command = commandToken?.kind === 'positional' ? commandToken.value : null;
+
+    const commandOptions = command === null ? {} : getCommandOptions(command);
+    if (commandOptions === null) {
+        throw new UsageError(`Unknown command "${command}". Run gdrivevault --help.`);
+    }
+
+    try {
+        const {values, positionals} = parseArgs({
+            args: commandToken ? argv.filter((_, i) => i !== commandToken.index) : argv,
+            options: toParseArgsOptions({...GLOBAL_OPTIONS, ...commandOptions}),
+            strict: true,
+            allowPositionals: true,
+        });
+        return {command, positionals, values: values as OptionValues};
+    } catch (err) {
+        throw new UsageError((err as Error).message);
+    }
+}
+
+/**
+ * Reads a string option holding a whole number.
+ * @param values The parsed options.
+ * @param name The option name.
+ * @returns The number, or undefined if the option was not given.
+ * @throws UsageError when the value is not a whole number.
+ */
+export function getIntegerOption(values: OptionValues, name: string): number | undefined {
+    const value = values[name];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+        throw new UsageError(`--${name} must be a whole number.`);
+    }
+    return Number(value);
+}
+
+/**
+ * Reads a string option that takes one of a few values.
+ * @param values The parsed options.
+ * @param name The option name.
+ * @param choices The accepted values.
+ * @returns The value, or undefined if the option was not given.
+ * @throws UsageError when the value is not one of the choices.
+ */
+export function getChoiceOption<T extends string>(
+    values: OptionValues,
+    name: string,
+    choices: readonly T[]
+): T | undefined {
+    const value = values[name];
+    if (value === undefined) return undefined;
+    if (!choices.includes(value as T)) {
+        throw new UsageError(`--${name} must be one of ${choices.join(', ')}.`);
+    }
+    return value as T;
+}
+
+/**
+ * Converts option specs into the form util.parseArgs expects.
+ * @param options The option specs.
+ * @returns The parseArgs options.
+ */
+function toParseArgsOptions(
+    options: Record<string, OptionSpec>
+): NonNullable<ParseArgsConfig['options']> {
+    return Object.fromEntries(
+        Object.entries(options).map(([name, {type, short, multiple}]) => [
+            name,
+            // parseArgs rejects keys that are present but undefined.
+            {type, ...(short ? {short} : {}), multiple: multiple === true},
+        ])
+    );
+}
@@ -0,0 +1,444 @@
+import fs from 'fs/promises';
+import {DriveFileManager, DriveFileServer} from '@/index';
+import {DatabaseFile, ExportFormat, SearchOrder} from '@/types';
+import {
+    OptionSpec,
+    OptionValues,
+    UsageError,
+    getChoiceOption,
+    getIntegerOption,
+} from './args';
+import {ResolvedConfig, requireFolders, writeConfigFile} from './config';
+import {Output, formatBytes, formatDate, formatTable} from './output';
+import {COMPLETION_SHELLS, buildCompletionScript} from './completion';
+
+export interface CommandContext {
+    positionals: string[];
+    values: OptionValues;
+    output: Output;
+    resolved: ResolvedConfig;
+    // Creates the manager on first use and signs in.
+    getManager(): Promise<DriveFileManager>;
+}
+
+export interface Command {
+    name: string;
+    // The arguments shown in help, such as <query...>.
+    args: string;
+    summary: string;
+    options: Record<string, OptionSpec>;
+    // The values shell completion offers for the first argument.
+    argChoices?: string[];
+    run(context: CommandContext): Promise<void>;
+}
+
+const SORT_ORDERS = ['relevance', 'name', 'modified', 'modifiedTime', 'size'] as const;
+const EXPORT_FORMATS: ExportFormat[] = [
+    'pdf',
+    'docx',
+    'xlsx',
+    'pptx',
+    'odt',
+    'ods',
+    'odp',
+    'rtf',
+    'epub',
+    'html',
+    'txt',
+    'csv',
+    'tsv',
+    'png',
+    'jpg',
+    'svg',
+];
+const CACHE_ACTIONS = ['usage', 'purge', 'pin', 'unpin'] as const;
+const API_KEY_ENV = 'GDRIVEVAULT_API_KEY';
+
+export const COMMANDS: Command[] = [
+    {
+        name: 'init',
+        args: '',
+        summary: 'Sign in and save the given options to the config file',
+        options: {
+            force: {type: 'boolean', description: 'Overwrite an existing config file'},
+        },
+        async run({values, output, resolved, getManager}) {
+            if (resolved.configFileFound && !values.force) {
+                throw new UsageError(
+                    `${resolved.configPath} already exists; pass --force to overwrite it.`
+                );
+            }
+            requireFolders(resolved.config);
+
+            await getManager();
+            await writeConfigFile(resolved.configPath, resolved.config);
+            output.result(
+                {configPath: resolved.configPath},
+                ({configPath}) => `Signed in. Configuration saved to ${configPath}.`
+            );
+        },
+    },
+    {
+        name: 'auth',
+        args: '',
+        summary: 'Sign in to Google Drive and save the token',
+        options: {},
+        async run({output, getManager}) {
+            await getManager();
+            output.result({signedIn: true}, () => 'Signed in.');
+        },
+    },
+    {
+        name: 'refresh',
+        args: '',
+        summary: 'Update the local index from Google Drive',
+        options: {},
+        async run({output, getManager}) {
+            const manager = await getManager();
+            const result = await manager.refreshDatabase();
+            output.result(
+                result,
+                ({mode, totalFiles, newFiles, scannedRoots}) =>
+                    `${mode === 'full' ? 'Full' : 'Incremental'} refresh: ${totalFiles} file(s) indexed, ${newFiles} new.` +
+                    (scannedRoots.length > 0
+                        ? `\nScanned in full: ${scannedRoots.join(', ')}`
+                        : '')
+            );
+        },
+    },
+    {
+        name: 'search',
+        args: '<query...>',
+        summary: 'Search the index; supports ext:, in:, modified>, size< and more',
+        options: {
+            limit: {
+                type: 'string',
+                short: 'n',
+                placeholder: '<n>',
+                description: 'Results per page (default 50)',
+            },
+            cursor: {
+                type: 'string',
+                placeholder: '<cursor>',
+                description: 'Continue from a previous page',
+            },
+            offset: {type: 'string', placeholder: '<n>', description: 'Results to skip'},
+            sort: {
+                type: 'string',
+                placeholder: '<order>',
+                choices: ['relevance', 'name', 'modified', 'size'],
+                description: 'relevance, name, modified or size',
+            },
+            direction: {
+                type: 'string',
+                placeholder: '<dir>',
+                choices: ['asc', 'desc'],
+                description: 'asc or desc',
+            },
+            root: {
+                type: 'string',
+                placeholder: '<id>',
+                description: 'Only search one root folder',
+            },
+            under: {
+                type: 'string',
+                placeholder: '<id>',
+                description: 'Only search under a folder',
+            },
+            exact: {type: 'boolean', description: 'Do not look for misspelled words'},
+        },
+        async run({positionals, values, output, getManager}) {
+            const sort = getChoiceOption(values, 'sort', SORT_ORDERS);
+            const options = {
+                limit: getIntegerOption(values, 'limit'),
+                offset: getIntegerOption(values, 'offset'),
+                cursor: values.cursor as string | undefined,
+                orderBy: (sort === 'modified' ? 'modifiedTime' : sort) as
+                    | SearchOrder
+                    | undefined,
+                direction: getChoiceOption(values, 'direction', ['asc', 'desc'] as const),
+                rootId: values.root as string | undefined,
+                folderId: values.under as string | undefined,
+                fuzzy: values.exact ? false : undefined,
+            };
+
+            const manager = await getManager();
+            const page = await manager.searchFiles(positionals.join(' '), options);
+            output.result(page, ({results, total, nextCursor}) => {
+                if (results.length === 0) {
+                    return 'No files found.';
+                }
+                const start = (options.offset ?? 0) + 1;
+                const lines = [
+                    formatFileTable(results),
+                    '',
+                    options.cursor
+                        ? `${results.length} of ${total} file(s).`
+                        : `${start}-${start + results.length - 1} of ${total} file(s).`,
+                ];
+                if (results.some(file => file.fuzzy)) {
+                    lines.push('~ matched with a misspelled word corrected.');
+                }
+                if (nextCursor) {
+                    lines.push(`Next page: --cursor ${nextCursor}`);
+                }
+                return lines.join('\n');
+            });
+        },
+    },
+    {
+        name: 'download',
+        args: '<link|id>',
+        summary: 'Download a file, or reuse its cached copy',
+        options: {
+            format: {
+                type: 'string',
+                placeholder: '<format>',
+                choices: EXPORT_FORMATS,
+                description: 'Export format for Google Workspace files',
+            },
+            'allow-stale': {
+                type: 'boolean',
+                description: 'Serve the cached copy even if the file changed',
+            },
+        },
+        async run({positionals, values, output, getManager}) {
+            const fileLink = requireArgument(positionals, '<link|id>');
+            const manager = await getManager();
+            const localPath = await manager.downloadFile(fileLink, {
+                exportFormat: getChoiceOption(values, 'format', EXPORT_FORMATS),
+                staleness: values['allow-stale'] ? 'allow' : undefined,
+            });
+            output.result({path: localPath}, ({path}) => path);
+        },
+    },
+    {
+        name: 'ls',
+        args: '[folder-id]',
+        summary: 'List the folders and files in a folder, by default the root',
+        options: {},
+        async run({positionals, output, getManager}) {
+            const manager = await getManager();
+            const children = await manager.listFolderChildren(positionals[0]);
+            output.result(children, ({folders, files}) =>
+                folders.length + files.length === 0
+                    ? 'The folder is empty.'
+                    : formatTable(
+                          ['NAME', 'SIZE', 'MODIFIED', 'ID'],
+                          [
+                              ...folders.map(folder => [
+                                  `${folder.name}/`,
+                                  '-',
+                                  '-',
+                                  folder.id,
+                              ]),
+                              ...files.map(file => [
+                                  file.name,
+                                  formatBytes(file.size),
+                                  formatDate(file.modifiedTime),
+                                  file.id,
+                              ]),
+                          ]
+                      )
+            );
+        },
+    },
+    {
+        name: 'cache',
+        args: '[usage|purge|pin|unpin] [link|id]',
+        summary: 'Show or manage the downloaded files',
+        argChoices: [...CACHE_ACTIONS],
+        options: {
+            'include-pinned': {type: 'boolean', description: 'Also purge pinned files'},
+        },
+        async run({positionals, values, output, getManager}) {
+            const action = positionals[0] ?? 'usage';
+            if (!(CACHE_ACTIONS as readonly string[]).includes(action)) {
+                throw new UsageError(
+                    `Unknown cache action "${action}"; use ${CACHE_ACTIONS.join(', ')}.`
+                );
+            }
+            const manager = await getManager();
+
+            if (action === 'purge') {
+                const deleted = await manager.purgeCache({
+                    includePinned: values['include-pinned'] === true,
+                });
+                output.result({deleted}, () => `Deleted ${deleted} file(s).`);
+            } else if (action === 'pin' || action === 'unpin') {
+                const fileLink = requireArgument(positionals.slice(1), '<link|id>');
+                await (action === 'pin'
+                    ? manager.pinFile(fileLink)
+                    : manager.unpinFile(fileLink));
+                output.result(
+                    {[action === 'pin' ? 'pinned' : 'unpinned']: fileLink},
+                    () => `${action === 'pin' ? 'Pinned' : 'Unpinned'} ${fileLink}.`
+                );
+            } else {
+                const usage = await manager.getCacheUsage();
+                output.result(usage, usage =>
+                    [
+                        `${usage.fileCount} file(s), ${formatBytes(usage.totalBytes)}`,
+                        `Pinned: ${usage.pinnedCount} file(s), ${formatBytes(usage.pinnedBytes)}`,
+                        `Size limit: ${usage.maxBytes === null ? 'none' : formatBytes(usage.maxBytes)}`,
+                        `Age limit: ${usage.maxAgeMs === null ? 'none' : `${Math.round(usage.maxAgeMs / 86400000)} day(s)`}`,
+                    ].join('\n')
+                );
+            }
+        },
+    },
+    {
+        name: 'status',
+        args: '',
+        summary: 'Show the configuration, indexed roots and cache usage',
+        options: {},
+        async run({output, resolved, getManager}) {
+            const manager = await getManager();
+            const roots = await manager.listRoots();
+            const status = {
+                configPath: resolved.configFileFound ? resolved.configPath : null,
+                databasePath: resolved.config.databasePath ?? null,
+                databaseBytes: resolved.config.databasePath
+                    ? await fs
+                          .stat(resolved.config.databasePath)
+                          .then(stats => stats.size)
+                          .catch(() => null)
+                    : null,
+                roots: await Promise.all(
+                    roots.map(async root => ({
+                        ...root,
+                        files: (
+                            await manager.searchFiles('', {rootId: root.id, limit: 1})
+                        ).total,
+                    }))
+                ),
+                cache: await manager.getCacheUsage(),
+            };
+
+            output.result(status, status =>
+                [
+                    `Config file: ${status.configPath ?? 'none'}`,
+                    `Database: ${status.databasePath ?? 'default location'}` +
+                        (status.databaseBytes === null
+                            ? ''
+                            : ` (${formatBytes(status.databaseBytes)})`),
+                    `Downloads: ${status.cache.fileCount} file(s), ${formatBytes(status.cache.totalBytes)}`,
+                    '',
+                    status.roots.length === 0
+                        ? 'No roots indexed yet; run gdrivevault refresh.'
+                        : formatTable(
+                              ['ROOT', 'NAME', 'FILES', 'ADDED'],
+                              status.roots.map(root => [
+                                  root.id,
+                                  root.name ?? '-',
+                                  String(root.files),
+                                  formatDate(root.addedAt),
+                              ])
+                          ),
+                ].join('\n')
+            );
+        },
+    },
+    {
+        name: 'serve',
+        args: '',
+        summary: 'Serve search, downloads and refreshes over HTTP until stopped',
+        options: {
+            port: {
+                type: 'string',
+                short: 'p',
+                placeholder: '<port>',
+                description: 'Port to listen on (default 3000)',
+            },
+            host: {
+                type: 'string',
+                placeholder: '<host>',
+                description: 'Address to listen on (default 127.0.0.1)',
+            },
+            'api-key': {
+                type: 'string',
+                multiple: true,
+                placeholder: '<key>',
+                description: `Key clients must send; repeat for several, or set ${API_KEY_ENV}`,
+            },
+        },
+        async run({values, output, getManager}) {
+            const apiKeys =
+                (values['api-key'] as string[] | undefined) ??
+                process.env[API_KEY_ENV]?.split(',')
+                    .map(key => key.trim())
+                    .filter(key => key !== '');
+            const server = new DriveFileServer(await getManager(), {
+                port: getIntegerOption(values, 'port'),
+                host: values.host as string | undefined,
+                apiKeys,
+            });
+
+            const {address, port} = await server.listen();
+            const host = address.includes(':') ? `[${address}]` : address;
+            output.result(
+                {url: `http://${host}:${port}`},
+                ({url}) => `Listening on ${url}. Press Ctrl+C to stop.`
+            );
+
+            await new Promise<void>(resolve => {
+                process.once('SIGINT', resolve);
+                process.once('SIGTERM', resolve);
+            });
+            await server.close();
+        },
+    },
+    {
+        name: 'completion',
+        args: '<bash|zsh|fish>',
+        summary: 'Print the shell completion script',
+        argChoices: [...COMPLETION_SHELLS],
+        options: {},
+        async run({positionals}) {
+            const shell = requireArgument(positionals, '<bash|zsh|fish>');
+            if (!(COMPLETION_SHELLS as readonly string[]).includes(shell)) {
+                throw new UsageError(
+                    `Unknown shell "${shell}"; use ${COMPLETION_SHELLS.join(', ')}.`
+                );
+            }
+            process.stdout.write(
+                buildCompletionScript(
+                    shell as (typeof COMPLETION_SHELLS)[number],
+                    COMMANDS
+                )
+            );
+        },
+    },
+];
+
+/**
+ * Reads a required argument.
+ * @param positionals The arguments of the command.
+ * @param name The name of the argument, for the error message.
+ * @returns The argument.
+ * @throws UsageError when the argument is missing.
+ */
+function requireArgument(positionals: string[], name: string): string {
+    if (!positionals[0]) {
+        throw new UsageError(`Missing argument ${name}.`);
+    }
+    return positionals[0];
+}
+
+/**
+ * Lays out search results as a table. Files matched through a corrected
+ * misspelling are marked with a tilde.
+ * @param files The files.
+ * @returns The table.
+ */
+function formatFileTable(files: DatabaseFile[]): string {
+    return formatTable(
+        ['PATH', 'SIZE', 'MODIFIED', 'ID'],
+        files.map(file => [
+            `${file.fuzzy ? '~ ' : ''}${file.path}`,
+            formatBytes(file.size),
+            formatDate(file.modifiedTime),
+            file.id,
+        ])
+    );
+}
@@ -0,0 +1,165 @@
+import {GLOBAL_OPTIONS, OptionSpec} from './args';
+import {Command} from './commands';
+
+export const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'] as const;
+
+/**
+ * Builds the completion script for a shell from the commands and their options.
+ * Bash and zsh load it with `source <(gdrivevault completion bash)`; fish with
+ * `gdrivevault completion fish | source`.
+ * @param shell The shell.
+ * @param commands The commands.
+ * @returns The script.
+ */
+export function buildCompletionScript(
+    shell: (typeof COMPLETION_SHELLS)[number],
+    commands: Command[]
+): string {
+    if (shell === 'fish') {
+        return buildFishScript(commands);
+    }
+    const bash = buildBashScript(commands);
+    // zsh runs bash completion functions through bashcompinit.
+    return shell === 'zsh'
+        ? `autoload -U +X compinit && compinit\nautoload -U +X bashcompinit && bashcompinit\n${bash}`
+        : bash;
+}
+
+/**
+ * Builds the bash completion function.
+ * @param commands The commands.
+ * @returns The script.
+ */
+function buildBashScript(commands: Command[]): string {
+    const allOptions = [GLOBAL_OPTIONS, ...commands.map(command => command.options)];
+    const valueFlags = new Set(
+        allOptions.flatMap(options =>
+            Object.entries(options)
+                .filter(([, spec]) => spec.type === 'string')
+                .flatMap(([name, spec]) => flagsOf(name, spec))
+        )
+    );
+    const pathFlags = allOptions.flatMap(options =>
+        Object.entries(options)
+            .filter(([, spec]) => spec.placeholder === '<path>')
+            .flatMap(([name, spec]) => flagsOf(name, spec))
+    );
+    const choiceCases = allOptions.flatMap(options =>
+        Object.entries(options)
+            .filter(([, spec]) => spec.choices)
+            .map(
+                ([name, spec]) =>
+                    `        ${flagsOf(name, spec).join('|')}) COMPREPLY=($(compgen -W "${spec.choices!.join(' ')}" -- "$cur")); return ;;`
+            )
+    );
+    const globalFlags = Object.keys(GLOBAL_OPTIONS).map(name => `--${name}`);
+    const commandCases = commands.map(
+        command =>
+            `        ${command.name}) opts="${[...globalFlags, ...Object.keys(command.options).map(name => `--${name}`)].join(' ')}"; choices="${(command.argChoices ?? []).join(' ')}" ;;`
+    );
+
+    return `# gdrivevault completion for bash
+_gdrivevault() {
+    local cur="\${COMP_WORDS[COMP_CWORD]}" prev="\${COMP_WORDS[COMP_CWORD-1]}"
+    local command="" arg_index=0 i opts="" choices=""
+    for ((i = 1; i < COMP_CWORD; i++)); do
+        case "\${COMP_WORDS[i]}" in
+            ${Array.from(valueFlags).join('|')}) ((i++)) ;;
+            -*) ;;
+            *) if [[ -z "$command" ]]; then command="\${COMP_WORDS[i]}"; else ((arg_index++)); fi ;;
+        esac
+    done
+
+    case "$prev" in
+${choiceCases.join('\n')}
+        ${pathFlags.join('|')}) COMPREPLY=($(compgen -f -- "$cur")); return ;;
+        ${Array.from(valueFlags).join('|')}) return ;;
+    esac
+
+    if [[ -z "$command" ]]; then
+        COMPREPLY=($(compgen -W "${commands.map(command => command.name).join(' ')} ${globalFlags.join(' ')}" -- "$cur"))
+        return
+    fi
+
+    case "$command" in
+${commandCases.join('\n')}
+    esac
+    if [[ "$cur" == -* ]]; then
+        COMPREPLY=($(compgen -W "$opts" -- "$cur"))
+    elif [[ $arg_index -eq 0 && -n "$choices" ]]; then
+        COMPREPLY=($(compgen -W "$choices" -- "$cur"))
+    fi
+}
+complete -F _gdrivevault gdrivevault
+`;
+}
+
+/**
+ * Builds the fish completions.
+ * @param commands The commands.
+ * @returns The script.
+ */
+function buildFishScript(commands: Command[]): string {
+    const lines = ['# gdrivevault completion for fish', 'complete -c gdrivevault -f'];
+
+    for (const command of commands) {
+        lines.push(
+            `complete -c gdrivevault -n __fish_use_subcommand -a ${command.name} -d ${fishQuote(command.summary)}`
+        );
+    }
+    for (const [name, spec] of Object.entries(GLOBAL_OPTIONS)) {
+        lines.push(`complete -c gdrivevault ${fishOption(name, spec)}`);
+    }
+    for (const command of commands) {
+        const condition = `-n ${fishQuote(`__fish_seen_subcommand_from ${command.name}`)}`;
+        for (const [name, spec] of Object.entries(command.options)) {
+            lines.push(`complete -c gdrivevault ${condition} ${fishOption(name, spec)}`);
+        }
+        if (command.argChoices) {
+            lines.push(
+                `complete -c gdrivevault ${condition} -a ${fishQuote(command.argChoices.join(' '))}`
+            );
+        }
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Describes an option to fish's complete builtin.
+ * @param name The option name.
+ * @param spec The option.
+ * @returns The complete arguments.
+ */
+function fishOption(name: string, spec: OptionSpec): string {
+    const parts = [`-l ${name}`];
+    if (spec.short) parts.push(`-s ${spec.short}`);
+    if (spec.placeholder === '<path>') {
+        parts.push('-r -F');
+    } else if (spec.choices) {
+        parts.push(`-x -a ${fishQuote(spec.choices.join(' '))}`);
+    } else if (spec.type === 'string') {
+        parts.push('-x');
+    }
+    parts.push(`-d ${fishQuote(spec.description)}`);
+    return parts.join(' ');
+}
+
+/**
+ * Lists the long and short flags of an option.
+ * @param name The option name.
+ * @param spec The option.
+ * @returns The flags, such as --folder and -f.
+ */
+function flagsOf(name: string, spec: OptionSpec): string[] {
+    return spec.short ? [`--${name}`, `-${spec.short}`] : [`--${name}`];
+}
+
+/**
+ * Quotes a string for fish.
+ * @param value The string.
+ * @returns The quoted string.
+ */
+function fishQuote(value: string): string {
+    return `'${value.replace(/[\\']/g, char => `\\${char}`)}'`;
+}
@@ -0,0 +1,172 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {AuthConfig, DriveFileManagerConfig} from '@/types';
+import {OptionValues, UsageError} from './args';
+
+export const CONFIG_FILE_NAME = 'gdrivevault.config.json';
+
+// Settings that can be given as environment variables, by option name.
+export const ENV_VARS = {
+    config: 'GDRIVEVAULT_CONFIG',
+    folder: 'GDRIVEVAULT_FOLDER_ID',
+    database: 'GDRIVEVAULT_DATABASE_PATH',
+    downloads: 'GDRIVEVAULT_DOWNLOADS_PATH',
+    credentials: 'GDRIVEVAULT_CREDENTIALS_PATH',
+    token: 'GDRIVEVAULT_TOKEN_PATH',
+    logs: 'GDRIVEVAULT_LOGS_PATH',
+    auth: 'GDRIVEVAULT_AUTH',
+} as const;
+
+const PATH_SETTINGS = {
+    database: 'databasePath',
+    downloads: 'downloadsPath',
+    credentials: 'credentialsPath',
+    token: 'tokenPath',
+    logs: 'logsPath',
+} as const;
+
+const AUTH_TYPES = ['browser', 'headless', 'service-account'];
+
+// The part of the configuration that can be written to a config file.
+export type FileConfig = Omit<DriveFileManagerConfig, 'auth' | 'tokenStore'> & {
+    auth?: Exclude<AuthConfig, {type: 'client'}>;
+};
+
+export interface ResolvedConfig {
+    config: FileConfig;
+    // The config file that was read, or the one init writes to.
+    configPath: string;
+    configFileFound: boolean;
+}
+
+/**
+ * Builds the configuration from the config file, then environment variables,
+ * then command-line options, each overriding the ones before it. Relative paths
+ * in the config file are relative to the file.
+ * @param values The parsed command-line options.
+ * @param env The environment variables.
+ * @returns The configuration and where the config file is.
+ * @throws UsageError when the config file cannot be read or a value is not valid.
+ */
+export async function resolveConfig(
+    values: OptionValues,
+    env: Record<string, string | undefined> = process.env
+): Promise<ResolvedConfig> {
+    const explicitPath = (values.config as string | undefined) ?? env[ENV_VARS.config];
+    const configPath = path.resolve(explicitPath ?? CONFIG_FILE_NAME);
+    const fileConfig = await readConfigFile(configPath, explicitPath !== undefined);
+
+    const config: FileConfig = {...(fileConfig ?? {})};
+    const setting = (name: keyof typeof ENV_VARS): string | string[] | undefined =>
+        (values[name] as string | string[] | undefined) ?? env[ENV_VARS[name]];
+
+    const folders = setting('folder');
+    if (folders !== undefined) {
+        // Several folders can be listed in one value, separated by commas.
+        const folderIds = ([] as string[])
+            .concat(folders)
+            .flatMap(value => value.split(','))
+            .map(value => value.trim())
+            .filter(value => value !== '');
+        delete config.folderId;
+        config.folderIds = folderIds;
+    }
+
+    for (const [name, key] of Object.entries(PATH_SETTINGS)) {
+        const value = setting(name as keyof typeof PATH_SETTINGS);
+        if (typeof value === 'string') {
+            config[key] = path.resolve(value);
+        }
+    }
+
+    const auth = setting('auth');
+    if (typeof auth === 'string') {
+        if (!AUTH_TYPES.includes(auth)) {
+            throw new UsageError(
+                `The auth type must be one of ${AUTH_TYPES.join(', ')}.`
+            );
+        }
+        // A key file or subject from the config file is kept for service accounts.
+        config.auth =
+            auth === 'service-account'
+                ? {...(config.auth?.type === auth ? config.auth : {}), type: auth}
+                : {type: auth as 'browser' | 'headless'};
+    }
+
+    return {config, configPath, configFileFound: fileConfig !== null};
+}
+
+/**
+ * Checks that the configuration names at least one folder.
+ * @param config The configuration.
+ * @throws UsageError when no folder is configured.
+ */
+export function requireFolders(config: FileConfig): void {
+    if (!config.folderId && !config.folderIds?.length) {
+        throw new UsageError(
+            `No folder is configured. Pass --folder, set ${ENV_VARS.folder} or run gdrivevault init.`
+        );
+    }
+}
+
+/**
+ * Writes the configuration to a config file.
+ * @param configPath The path of the config file.
+ * @param config The configuration.
+ */
+export async function writeConfigFile(
+    configPath: string,
+    config: FileConfig
+): Promise<void> {
+    await fs.mkdir(path.dirname(configPath), {recursive: true});
+    await fs.writeFile(configPath, `${JSON.stringify(config, null, 4)}\n`);
+}
+
+/**
+ * Reads a config file.
+ * @param configPath The path of the config file.
+ * @param required Whether a missing file is an error.
+ * @returns The configuration with paths made absolute, or null if there is no file.
+ */
+async function readConfigFile(
+    configPath: string,
+    required: boolean
+): Promise<FileConfig | null> {
+    let content: string;
+    try {
+        content = await fs.readFile(configPath, 'utf-8');
+    } catch (err) {
+        if ((err as {code?: string}).code === 'ENOENT' && !required) {
+            return null;
+        }
+        throw new UsageError(
+            `Failed to read the config file ${configPath}: ${(err as Error).message}`
+        );
+    }
+
+    let config: FileConfig;
+    try {
+        config = JSON.parse(content);
+    } catch (err) {
+        throw new UsageError(
+            `The config file ${configPath} is not valid JSON: ${(err as Error).message}`
+        );
+    }
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        throw new UsageError(`The config file ${configPath} must hold a JSON object.`);
+    }
+
+    const directory = path.dirname(configPath);
+    for (const key of Object.values(PATH_SETTINGS)) {
+        if (typeof config[key] === 'string') {
+            config[key] = path.resolve(directory, config[key]);
+        }
+    }
+    if (config.auth?.type === 'service-account' && config.auth.keyFile) {
+        config.auth = {
+            ...config.auth,
+            keyFile: path.resolve(directory, config.auth.keyFile),
+        };
+    }
+    return config;
+}
@@ -0,0 +1,34 @@
+import {
+    CredentialsNotFoundError,
+    DatabaseVersionError,
+    NotFoundError,
+    QueryParseError,
+    SearchOptionsError,
+} from '@/errors';
+import {UsageError} from './args';
+
+export const EXIT_CODES = {
+    success: 0,
+    failure: 1,
+    usage: 2,
+    invalidQuery: 3,
+    notFound: 4,
+    credentialsNotFound: 5,
+    databaseVersion: 6,
+} as const;
+
+/**
+ * Picks the exit code for an error, so that scripts can tell failures apart.
+ * @param err The error the command failed with.
+ * @returns The exit code.
+ */
+export function exitCodeFor(err: unknown): number {
+    if (err instanceof UsageError || err instanceof SearchOptionsError) {
+        return EXIT_CODES.usage;
+    }
+    if (err instanceof QueryParseError) return EXIT_CODES.invalidQuery;
+    if (err instanceof NotFoundError) return EXIT_CODES.notFound;
+    if (err instanceof CredentialsNotFoundError) return EXIT_CODES.credentialsNotFound;
+    if (err instanceof DatabaseVersionError) return EXIT_CODES.databaseVersion;
+    return EXIT_CODES.failure;
+}
@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+import {DriveFileManager} from '@/index';
+import {logger} from '@/utils/logger';
+import {GLOBAL_OPTIONS, OptionSpec, parseCommandLine} from './args';
+import {Command, COMMANDS} from './commands';
+import {ENV_VARS, requireFolders, resolveConfig} from './config';
+import {exitCodeFor} from './exit-codes';
+import {Output} from './output';
+
+/**
+ * Runs the command given on the command line and sets the exit code.
+ * @param argv The arguments, without the node executable and script.
+ */
+async function main(argv: string[]): Promise<void> {
+    let output = new Output(argv.includes('--json'));
+    let manager: DriveFileManager | null = null;
+
+    try {
+        const {
+            command: commandName,
+            positionals,
+            values,
+        } = parseCommandLine(
+            argv,
+            name => COMMANDS.find(command => command.name === name)?.options ?? null
+        );
+        output = new Output(values.json === true);
+        const command = COMMANDS.find(command => command.name === commandName);
+
+        if (!command || values.help) {
+            process.stdout.write(command ? commandHelp(command) : generalHelp());
+            return;
+        }
+
+        logger.setConsoleOutput(values.verbose ? 'stderr' : 'off');
+        const resolved = await resolveConfig(values);
+
+        await command.run({
+            positionals,
+            values,
+            output,
+            resolved,
+            async getManager() {
+                if (!manager) {
+                    requireFolders(resolved.config);
+                    manager = new DriveFileManager(resolved.config);
+                    await manager.init();
+                }
+                return manager;
+            },
+        });
+    } catch (err) {
+        const exitCode = exitCodeFor(err);
+        output.error(err as Error, exitCode);
+        process.exitCode = exitCode;
+    } finally {
+        await (manager as DriveFileManager | null)?.close();
+    }
+}
+
+/**
+ * Builds the help shown without a command.
+ * @returns The help text.
+ */
+function generalHelp(): string {
+    return [
+        'Usage: gdrivevault <command> [options]',
+        '',
+        'Commands:',
+        formatColumns(
+            COMMANDS.map(command => [
+                `${command.name}${command.args ? ` ${command.args}` : ''}`,
+                command.summary,
+            ])
+        ),
+        '',
+        'Options:',
+        formatOptions(GLOBAL_OPTIONS),
+        '',
+        `Settings are read from the config file, then ${Object.values(ENV_VARS)
+            .filter(name => name !== ENV_VARS.config)
+            .join(', ')}, then the options.`,
+        'Run gdrivevault <command> --help for the options of a command.',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Builds the help of one command.
+ * @param command The command.
+ * @returns The help text.
+ */
+function commandHelp(command: Command): string {
+    const lines = [
+        `Usage: gdrivevault ${command.name}${command.args ? ` ${command.args}` : ''} [options]`,
+        '',
+        command.summary,
+    ];
+    if (Object.keys(command.options).length > 0) {
+        lines.push('', 'Options:', formatOptions(command.options));
+    }
+    lines.push('', 'Global options:', formatOptions(GLOBAL_OPTIONS), '');
+    return lines.join('\n');
+}
+
+/**
+ * Lists options with their descriptions.
+ * @param options The options.
+ * @returns One line per option.
+ */
+function formatOptions(options: Record<string, OptionSpec>): string {
+    return formatColumns(
+        Object.entries(options).map(([name, spec]) => [
+            [
+                spec.short ? `-${spec.short}, ` : '    ',
+                `--${name}`,
+                spec.type === 'string' ? ` ${spec.placeholder ?? '<value>'}` : '',
+            ].join(''),
+            spec.description,
+        ])
+    );
+}
+
+/**
+ * Aligns pairs of terms and descriptions in two indented columns.
+ * @param rows The pairs.
+ * @returns One line per pair.
+ */
+function formatColumns(rows: string[][]): string {
+    const width = Math.max(...rows.map(([term]) => term.length));
+    return rows
+        .map(([term, description]) => `  ${term.padEnd(width)}  ${description}`)
+        .join('\n');
+}
+
+main(process.argv.slice(2));
@@ -0,0 +1,85 @@
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+export class Output {
+    private json: boolean;
+
+    constructor(json: boolean) {
+        this.json = json;
+    }
+
+    /**
+     * Prints the result of a command: as JSON with --json, otherwise as the
+     * human-readable text built by render.
+     * @param data The result.
+     * @param render Builds the text shown to people.
+     */
+    result<T>(data: T, render: (data: T) => string): void {
+        const text = this.json ? JSON.stringify(data, null, 2) : render(data);
+        if (text) {
+            process.stdout.write(`${text}\n`);
+        }
+    }
+
+    /**
+     * Prints an error to stderr, as JSON with --json.
+     * @param err The error.
+     * @param exitCode The exit code the process ends with.
+     */
+    error(err: Error, exitCode: number): void {
+        const text = this.json
+            ? JSON.stringify({error: {type: err.name, message: err.message, exitCode}})
+            : `gdrivevault: ${err.message}`;
+        process.stderr.write(`${text}\n`);
+    }
+}
+
+/**
+ * Lays out rows as a table with aligned columns. Cells longer than maxWidth
+ * are cut short with an ellipsis.
+ * @param headers The column headers.
+ * @param rows The rows.
+ * @param maxWidth The widest a column may be.
+ * @returns The table, one line per row.
+ */
+export function formatTable(headers: string[], rows: string[][], maxWidth = 60): string {
+    const fit = (cell: string) =>
+        cell.length > maxWidth ? `${cell.slice(0, maxWidth - 1)}…` : cell;
+    const lines = [headers, ...rows].map(row => row.map(fit));
+    const widths = headers.map((_, i) => Math.max(...lines.map(row => row[i].length)));
+
+    return lines
+        .map(row =>
+            row
+                .map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])))
+                .join('  ')
+        )
+        .join('\n');
+}
+
+/**
+ * Formats a number of bytes with a unit, such as 1.5 MB.
+ * @param bytes The number of bytes, or null if unknown.
+ * @returns The formatted size, or '-' if unknown.
+ */
+export function formatBytes(bytes: number | null): string {
+    if (bytes === null) return '-';
+
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return unit === 0
+        ? `${value} B`
+        : `${value.toFixed(value < 10 ? 1 : 0)} ${BYTE_UNITS[unit]}`;
+}
+
+/**
+ * Formats an ISO 8601 timestamp as a date and time in UTC.
+ * @param timestamp The timestamp, or null if unknown.
+ * @returns The formatted date, or '-' if unknown.
+ */
+export function formatDate(timestamp: string | null): string {
+    return timestamp ? timestamp.slice(0, 16).replace('T', ' ') : '-';
+}
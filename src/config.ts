@@ -1,4 +1,5 @@
 import path from 'path';
+import {AuthConfig} from '@/types';
 
 const baseDirectories = {
     databases: path.join(process.cwd(), 'storage', 'databases'),
@@ -8,8 +9,15 @@ const baseDirectories = {
 
 const defaultConfig = {
     folderId: '',
+    folderIds: [] as string[],
     tokenPath: path.join(process.cwd(), 'storage', 'auth', 'tokens', 'token.json'),
     credentialsPath: path.join(process.cwd(), 'storage', 'auth', 'credentials.json'),
+    contentIndexing: 'off' as const,
+    fileNaming: 'id' as const,
+    cache: {},
+    auth: {type: 'browser'} as AuthConfig,
+    requests: {},
+    traversal: {},
 };
 
 export {defaultConfig, baseDirectories};
@@ -19,12 +19,12 @@ async function main() {
     await manager.refreshDatabase();
 
     const userQuery = 'statistical mech';
-    const searchResults = await manager.searchFiles(userQuery);
-    console.log('Search Results:', searchResults);
+    const {results} = await manager.searchFiles(userQuery);
+    console.log('Search Results:', results);
 
     // To simplify the example, we download the first file in the search results.
-    if (searchResults.length > 0) {
-        const selectedFileLink = searchResults[0].webViewLink;
+    if (results.length > 0) {
+        const selectedFileLink = results[0].webViewLink;
         const filePath = await manager.downloadFile(selectedFileLink);
         console.log(`File downloaded to: ${filePath}`);
     }
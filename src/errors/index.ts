@@ -0,0 +1,79 @@
+/**
+ * Thrown when the database on disk was written by a newer release of the package
+ * and uses a schema this release does not know how to read.
+ */
+export class DatabaseVersionError extends Error {
+    public readonly databaseVersion: number;
+    public readonly supportedVersion: number;
+
+    constructor(databaseVersion: number, supportedVersion: number) {
+        super(
+            `Database schema version ${databaseVersion} is newer than the latest version supported by this release of gdrivevault (${supportedVersion}). Upgrade gdrivevault or use a different databasePath.`
+        );
+        this.name = 'DatabaseVersionError';
+        this.databaseVersion = databaseVersion;
+        this.supportedVersion = supportedVersion;
+    }
+}
+
+/**
+ * Thrown when a search query cannot be parsed. `position` is the zero-based
+ * offset in the query where the problem was found.
+ */
+export class QueryParseError extends Error {
+    public readonly query: string;
+    public readonly position: number;
+
+    constructor(message: string, query: string, position: number) {
+        super(`${message} at position ${position} of "${query}".`);
+        this.name = 'QueryParseError';
+        this.query = query;
+        this.position = position;
+    }
+}
+
+/**
+ * Thrown when the filters, paging or sort options of a search are not valid, or
+ * its cursor is malformed or belongs to another search.
+ */
+export class SearchOptionsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SearchOptionsError';
+    }
+}
+
+/**
+ * Thrown when a file or folder is not in the local database. Files added to
+ * Drive since the last refresh are found once the database is refreshed.
+ */
+export class NotFoundError extends Error {
+    public readonly resource: 'file' | 'folder';
+    // The ID of the folder, or the link or ID of the file as it was given.
+    public readonly id: string;
+
+    constructor(resource: 'file' | 'folder', id: string) {
+        super(
+            resource === 'file'
+                ? 'File not found in the database.'
+                : `Folder ${id} is not in the indexed tree.`
+        );
+        this.name = 'NotFoundError';
+        this.resource = resource;
+        this.id = id;
+    }
+}
+
+/**
+ * Thrown when the OAuth client or service account key file needed to sign in
+ * is missing.
+ */
+export class CredentialsNotFoundError extends Error {
+    public readonly credentialsPath: string;
+
+    constructor(credentialsPath: string) {
+        super('Credentials file not found.');
+        this.name = 'CredentialsNotFoundError';
+        this.credentialsPath = credentialsPath;
+    }
+}
@@ -1,20 +1,67 @@
 import path from 'path';
-import fs from 'fs/promises';
-import {authorize} from '@/services/authorizer';
+import fs, {FileHandle} from 'fs/promises';
+import {authorize, getRequiredCredentialsPath} from '@/services/authorizer';
 import {GoogleDriveService} from '@/services/google-drive';
 import {FolderDatabase} from '@/services/database';
+import {ContentIndexer} from '@/services/content-indexer';
+import {DownloadCache} from '@/services/download-cache';
+import {FolderMirror} from '@/services/folder-mirror';
+import {FileTokenStore} from '@/services/token-store';
 import {logger} from '@/utils/logger';
-import {DriveFileManagerConfig, DatabaseFile} from '@/types';
+import {
+    CredentialsNotFoundError,
+    NotFoundError,
+    QueryParseError,
+    SearchOptionsError,
+} from '@/errors';
+import {
+    EXPORT_FORMATS,
+    resolveExportFormat,
+} from '@/services/google-drive/export-formats';
+import {computeFileMd5, extractFileIdFromLink} from '@/utils';
+import {
+    DriveFileManagerConfig,
+    DatabaseFile,
+    DownloadOptions,
+    RefreshResult,
+    CacheUsage,
+    PurgeCacheOptions,
+    MirrorOptions,
+    MirrorResult,
+    UploadOptions,
+    UpdateFileOptions,
+    GoogleFolder,
+    RootFolder,
+    SearchOptions,
+    SearchPage,
+    RequestStats,
+    DatabaseFolder,
+    FolderChildren,
+} from '@/types';
 import {defaultConfig, baseDirectories} from '@/config';
 
 export class DriveFileManager {
     private googleDriveService!: GoogleDriveService;
     private folderDatabase!: FolderDatabase;
+    private contentIndexer!: ContentIndexer;
+    private downloadCache!: DownloadCache;
+    private folderMirror!: FolderMirror;
     private config: Required<DriveFileManagerConfig>;
     private initialized = false;
 
     constructor(config: DriveFileManagerConfig) {
-        const {folderId} = config;
+        const folderIds = Array.from(
+            new Set([
+                ...(config.folderId ? [config.folderId] : []),
+                ...(config.folderIds ?? []),
+            ])
+        );
+        if (folderIds.length === 0) {
+            throw new Error('At least one folder ID must be configured.');
+        }
+        // Default paths are named after the first root, so adding roots later keeps
+        // using the same database.
+        const folderId = folderIds[0];
 
         const databasePath =
             config.databasePath ??
@@ -28,6 +75,17 @@ export class DriveFileManager {
             ...config,
             tokenPath: config.tokenPath ?? defaultConfig.tokenPath,
             credentialsPath: config.credentialsPath ?? defaultConfig.credentialsPath,
+            contentIndexing: config.contentIndexing ?? defaultConfig.contentIndexing,
+            fileNaming: config.fileNaming ?? defaultConfig.fileNaming,
+            cache: config.cache ?? defaultConfig.cache,
+            auth: config.auth ?? defaultConfig.auth,
+            requests: config.requests ?? defaultConfig.requests,
+            traversal: config.traversal ?? defaultConfig.traversal,
+            tokenStore:
+                config.tokenStore ??
+                new FileTokenStore(config.tokenPath ?? defaultConfig.tokenPath),
+            folderId,
+            folderIds,
             databasePath,
             downloadsPath,
             logsPath,
@@ -74,18 +132,22 @@ export class DriveFileManager {
         try {
             logger.info('Initializing Orchestrator...');
 
-            const credentialsExist = await this.fileExists(this.config.credentialsPath);
-            if (!credentialsExist) {
-                console.error(
-                    `\nCredentials file not found at "${this.config.credentialsPath}".`
-                );
-                console.error(
-                    'Please obtain a credentials.json file by following the instructions at:'
-                );
-                console.error(
-                    'https://developers.google.com/drive/api/v3/quickstart/nodejs\n'
-                );
-                throw new Error('Credentials file not found.');
+            const credentialsPath = getRequiredCredentialsPath(this.config);
+            if (credentialsPath && !(await this.fileExists(credentialsPath))) {
+                console.error(`\nCredentials file not found at "${credentialsPath}".`);
+                if (this.config.auth.type === 'service-account') {
+                    console.error(
+                        'Please create a JSON key for the service account in the Google Cloud console.\n'
+                    );
+                } else {
+                    console.error(
+                        'Please obtain a credentials.json file by following the instructions at:'
+                    );
+                    console.error(
+                        'https://developers.google.com/drive/api/v3/quickstart/nodejs\n'
+                    );
+                }
+                throw new CredentialsNotFoundError(credentialsPath);
             }
 
             const [authClient] = await Promise.all([
@@ -93,19 +155,27 @@ export class DriveFileManager {
                     folderId: this.config.folderId,
                     tokenPath: this.config.tokenPath,
                     credentialsPath: this.config.credentialsPath,
+                    auth: this.config.auth,
+                    tokenStore: this.config.tokenStore,
                 }),
                 this.initializeDirectories(),
             ]);
 
             this.googleDriveService = new GoogleDriveService(
                 authClient,
-                this.config.downloadsPath
+                this.config.downloadsPath,
+                this.config.fileNaming,
+                this.config.requests
             );
 
-            await Promise.all([
-                this.googleDriveService.validateFolderId(this.config.folderId),
-                this.initializeDatabase(),
-            ]);
+            // Opening the database drops roots that are no longer configured, so
+            // a mistyped folder ID must be caught first.
+            await Promise.all(
+                this.config.folderIds.map(folderId =>
+                    this.googleDriveService.validateFolderId(folderId)
+                )
+            );
+            await this.initializeDatabase();
 
             this.initialized = true;
             logger.info('Orchestrator initialized successfully.');
@@ -115,65 +185,209 @@ export class DriveFileManager {
         }
     }
 
+    /**
+     * Closes the database. The manager initializes again the next time it is used.
+     */
+    async close(): Promise<void> {
+        if (!this.initialized) {
+            return;
+        }
+
+        this.initialized = false;
+        await this.folderDatabase.closeDatabase();
+    }
+
     /**
      * Initializes the folder database.
      */
     private async initializeDatabase(): Promise<void> {
         this.folderDatabase = new FolderDatabase(
             this.googleDriveService,
-            this.config.folderId,
+            this.config.folderIds,
+            this.config.traversal,
             this.config.databasePath,
             logger
         );
 
         await this.folderDatabase.initDatabase();
+        await this.folderDatabase.syncRoots();
+
+        this.contentIndexer = new ContentIndexer(
+            this.googleDriveService,
+            this.folderDatabase,
+            logger
+        );
+
+        this.downloadCache = new DownloadCache(
+            this.folderDatabase,
+            this.config.cache,
+            logger
+        );
+        await this.downloadCache.enforceLimits();
+
+        this.folderMirror = new FolderMirror(
+            this.googleDriveService,
+            this.folderDatabase,
+            logger
+        );
     }
 
     /**
      * Searches for files in the local database based on a query string.
+     * When content indexing is enabled, file contents are searched as well.
+     * The query may mix words, "quoted phrases", negation, OR and field filters
+     * such as ext:pdf, in:"Year 2", owner:alice, modified>2025-01-01 or size<10MB.
      * @param query The search query.
-     * @returns An array of DatabaseFile objects matching the query.
+     * @param options Restricts the results to one root folder or to the subtree
+     * under one folder, applies structured filters on top of the query, and
+     * picks the page and sort order.
+     * @returns One page of matching files, their total number and the cursor of
+     * the next page.
+     * @throws QueryParseError when the query is not valid.
+     * @throws SearchOptionsError when the filters, paging or sort options are not
+     * valid.
      */
-    async searchFiles(query: string): Promise<DatabaseFile[]> {
+    async searchFiles(query: string, options: SearchOptions = {}): Promise<SearchPage> {
         await this.ensureInitialized();
 
         try {
-            const results = await this.folderDatabase.search(query);
+            const page = await this.folderDatabase.search(query, options);
             logger.info(
-                `Search completed. Found ${results.length} file(s) matching "${query}".`
+                `Search completed. Found ${page.total} file(s) matching "${query}".`
             );
-            return results;
+            return page;
         } catch (err) {
             logger.error('Error searching files:', err);
+            if (
+                err instanceof QueryParseError ||
+                err instanceof SearchOptionsError ||
+                err instanceof NotFoundError
+            ) {
+                throw err;
+            }
             throw new Error(`Failed to search files: ${(err as Error).message}`);
         }
     }
 
+    /**
+     * Lists the subfolders and files directly inside an indexed folder.
+     * @param folderId The ID of the folder, defaulting to the root folder.
+     * @returns The subfolders and files, each sorted by name.
+     */
+    async listFolderChildren(folderId?: string): Promise<FolderChildren> {
+        await this.ensureInitialized();
+
+        const id = folderId ?? this.config.folderId;
+        if (!(await this.folderDatabase.getFolder(id))) {
+            throw new NotFoundError('folder', id);
+        }
+        return this.folderDatabase.getChildren(id);
+    }
+
+    /**
+     * Lists the folders leading to a file, from its root folder down to the
+     * folder that holds it.
+     * @param fileLink The webViewLink of the file.
+     * @returns The folders, root first.
+     */
+    async getBreadcrumb(fileLink: string): Promise<DatabaseFolder[]> {
+        await this.ensureInitialized();
+
+        const breadcrumb = await this.folderDatabase.getBreadcrumb(fileLink);
+        if (!breadcrumb) {
+            throw new NotFoundError('file', fileLink);
+        }
+        return breadcrumb;
+    }
+
+    /**
+     * Retrieves the indexed metadata of a file.
+     * @param fileLink The webViewLink of the file.
+     * @returns The file.
+     */
+    async getFile(fileLink: string): Promise<DatabaseFile> {
+        await this.ensureInitialized();
+
+        const file = await this.folderDatabase.getFile(fileLink);
+        if (!file) {
+            throw new NotFoundError('file', fileLink);
+        }
+        return file;
+    }
+
+    /**
+     * Reports how many Drive API requests were sent since initialization, and how
+     * many of them were retried, rate limited by Drive or held back locally.
+     * @returns The request counters.
+     */
+    async getRequestStats(): Promise<RequestStats> {
+        await this.ensureInitialized();
+        return this.googleDriveService.getRequestStats();
+    }
+
+    /**
+     * Lists the root folders indexed in the database. Roots added to the config
+     * appear once a refresh has indexed them.
+     * @returns An array of RootFolder objects.
+     */
+    async listRoots(): Promise<RootFolder[]> {
+        await this.ensureInitialized();
+        return this.folderDatabase.getRoots();
+    }
+
     /**
      * Downloads a file from Google Drive given its webViewLink.
+     * Google Docs, Sheets and Slides are exported, by default to PDF, XLSX and PDF.
+     * A cached copy is served unless the file changed in Drive since it was
+     * downloaded; pass `staleness: 'allow'` to serve it anyway.
      * @param fileLink The webViewLink of the file.
+     * @param options Download options such as the export format.
      * @returns The local file path where the file was downloaded.
      */
-    async downloadFile(fileLink: string): Promise<string> {
+    async downloadFile(fileLink: string, options: DownloadOptions = {}): Promise<string> {
         await this.ensureInitialized();
 
         try {
-            const cachedFilePath = await this.folderDatabase.getLocalFilePath(fileLink);
-
-            if (cachedFilePath && (await this.fileExists(cachedFilePath))) {
-                logger.info(`File retrieved from cache at ${cachedFilePath}`);
-                return cachedFilePath;
+            const servableFilePath = await this.findCachedCopy(fileLink, options);
+            if (servableFilePath) {
+                return servableFilePath;
             }
 
+            const cachedFilePath = await this.folderDatabase.getLocalFilePath(fileLink);
             const fileExists = await this.folderDatabase.fileExists(fileLink);
             if (!fileExists) {
-                throw new Error('File not found in the database.');
+                throw new NotFoundError('file', fileLink);
             }
 
-            const localPath = await this.googleDriveService.downloadFile(fileLink);
+            const download = await this.googleDriveService.downloadFile(
+                fileLink,
+                options,
+                await this.folderDatabase.hasNamesake(fileLink)
+            );
+            const localPath = download.localPath;
             logger.info(`File downloaded successfully to ${localPath}`);
 
-            await this.folderDatabase.updateLocalFilePath(fileLink, localPath);
+            const stats = await fs.stat(localPath);
+            await this.folderDatabase.updateLocalFilePath(
+                fileLink,
+                localPath,
+                stats.size,
+                Math.floor(stats.mtimeMs),
+                download
+            );
+
+            // A previous copy under another name or format no longer matches the
+            // stored path, so it is removed to keep disk and database in sync.
+            if (cachedFilePath && cachedFilePath !== localPath) {
+                await fs.unlink(cachedFilePath).catch(() => undefined);
+            }
+
+            const fileId = extractFileIdFromLink(fileLink)!;
+            if (this.config.contentIndexing === 'download') {
+                await this.contentIndexer.indexLocalFile(fileId, localPath);
+            }
+
+            await this.downloadCache.enforceLimits(fileId);
 
             return localPath;
         } catch (err) {
@@ -182,6 +396,371 @@ export class DriveFileManager {
         }
     }
 
+    /**
+     * Downloads a file like downloadFile and hands the open local copy to a
+     * callback. The copy is not evicted from the cache while the callback runs,
+     * and the handle keeps reading the same content even if the copy is
+     * downloaded again in the meantime.
+     * @param fileLink The webViewLink of the file.
+     * @param options Download options such as the export format.
+     * @param read Reads the file through the handle, which is closed afterwards.
+     * @returns What the callback returns.
+     */
+    async withDownloadedFile<T>(
+        fileLink: string,
+        options: DownloadOptions,
+        read: (handle: FileHandle) => Promise<T>
+    ): Promise<T> {
+        await this.ensureInitialized();
+
+        const fileId = extractFileIdFromLink(fileLink);
+        if (!fileId) {
+            throw new NotFoundError('file', fileLink);
+        }
+
+        this.downloadCache.retain(fileId);
+        try {
+            const handle = await fs.open(await this.downloadFile(fileLink, options), 'r');
+            try {
+                return await read(handle);
+            } finally {
+                await handle.close();
+            }
+        } finally {
+            this.downloadCache.release(fileId);
+        }
+    }
+
+    /**
+     * Hands the cached copy of a file to a callback like withDownloadedFile, but
+     * only when downloadFile would serve that copy; nothing is downloaded.
+     * @param fileLink The webViewLink of the file.
+     * @param options Download options such as the export format.
+     * @param read Reads the file through the handle, which is closed afterwards.
+     * @returns What the callback returns, or null if there is no copy to serve.
+     */
+    async withCachedFile<T>(
+        fileLink: string,
+        options: DownloadOptions,
+        read: (handle: FileHandle) => Promise<T>
+    ): Promise<T | null> {
+        await this.ensureInitialized();
+
+        const fileId = extractFileIdFromLink(fileLink);
+        if (!fileId) {
+            throw new NotFoundError('file', fileLink);
+        }
+
+        this.downloadCache.retain(fileId);
+        try {
+            const cachedFilePath = await this.findCachedCopy(fileLink, options);
+            if (!cachedFilePath) {
+                return null;
+            }
+            const handle = await fs.open(cachedFilePath, 'r');
+            try {
+                return await read(handle);
+            } finally {
+                await handle.close();
+            }
+        } finally {
+            this.downloadCache.release(fileId);
+        }
+    }
+
+    /**
+     * Reports how much disk space downloaded files use.
+     * @returns The cache usage and the configured limits.
+     */
+    async getCacheUsage(): Promise<CacheUsage> {
+        await this.ensureInitialized();
+        return this.downloadCache.getUsage();
+    }
+
+    /**
+     * Pins a file so that its downloaded copy is never evicted from the cache.
+     * @param fileLink The webViewLink of the file.
+     */
+    async pinFile(fileLink: string): Promise<void> {
+        await this.ensureInitialized();
+
+        const found = await this.folderDatabase.setPinned(fileLink, true);
+        if (!found) {
+            throw new NotFoundError('file', fileLink);
+        }
+    }
+
+    /**
+     * Unpins a file so that its downloaded copy can be evicted again.
+     * @param fileLink The webViewLink of the file.
+     */
+    async unpinFile(fileLink: string): Promise<void> {
+        await this.ensureInitialized();
+
+        const found = await this.folderDatabase.setPinned(fileLink, false);
+        if (!found) {
+            throw new NotFoundError('file', fileLink);
+        }
+        await this.downloadCache.enforceLimits();
+    }
+
+    /**
+     * Deletes downloaded files from disk. Pinned files are kept unless requested.
+     * @param options Whether pinned files are deleted as well.
+     * @returns The number of deleted files.
+     */
+    async purgeCache(options?: PurgeCacheOptions): Promise<number> {
+        await this.ensureInitialized();
+        return this.downloadCache.purge(options);
+    }
+
+    /**
+     * Downloads every indexed file under a folder into a local directory tree that
+     * matches the Drive folder hierarchy. Unchanged files mirrored before are skipped.
+     * @param folderId The ID of the folder to mirror, or undefined for the root folder.
+     * @param destination The local directory to mirror into.
+     * @param options Whether local files deleted in Drive are removed.
+     * @returns A summary of what was downloaded, skipped and deleted.
+     */
+    async mirrorFolder(
+        folderId: string | undefined,
+        destination: string,
+        options: MirrorOptions = {}
+    ): Promise<MirrorResult> {
+        await this.ensureInitialized();
+
+        try {
+            return await this.folderMirror.mirror(
+                folderId ?? this.config.folderId,
+                path.resolve(destination),
+                options
+            );
+        } catch (err) {
+            logger.error('Error mirroring folder:', err);
+            if (err instanceof NotFoundError) {
+                throw err;
+            }
+            throw new Error(`Failed to mirror folder: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Uploads a local file to Google Drive and adds it to the database right away,
+     * so that searchFiles finds it without a refresh. Large files are uploaded
+     * through a resumable session.
+     * @param localPath The path of the file to upload.
+     * @param options The parent folder, defaulting to the root folder, and the
+     * name and mime type of the file in Drive.
+     * @returns The uploaded file.
+     */
+    async uploadFile(
+        localPath: string,
+        options: UploadOptions = {}
+    ): Promise<DatabaseFile> {
+        await this.ensureInitialized();
+
+        try {
+            const parentFolderId = options.parentFolderId ?? this.config.folderId;
+            const rootId = await this.getRootIdOfFolder(parentFolderId);
+
+            const file = await this.googleDriveService.uploadFile(
+                localPath,
+                parentFolderId,
+                options.name ?? path.basename(localPath),
+                options.mimeType
+            );
+            await this.folderDatabase.updateDatabase([file], rootId);
+
+            return (await this.folderDatabase.getFile(file.webViewLink))!;
+        } catch (err) {
+            logger.error('Error uploading file:', err);
+            if (err instanceof NotFoundError) {
+                throw err;
+            }
+            throw new Error(`Failed to upload file: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Replaces the content of a file in Google Drive with a local file and updates
+     * its database entry. A downloaded copy of the old content becomes stale.
+     * @param fileLink The webViewLink of the file.
+     * @param localPath The path of the new content.
+     * @param options A new name and the mime type of the new content.
+     * @returns The updated file.
+     */
+    async updateFile(
+        fileLink: string,
+        localPath: string,
+        options: UpdateFileOptions = {}
+    ): Promise<DatabaseFile> {
+        await this.ensureInitialized();
+
+        try {
+            const existing = await this.folderDatabase.getFile(fileLink);
+            if (!existing) {
+                throw new NotFoundError('file', fileLink);
+            }
+
+            const file = await this.googleDriveService.updateFile(
+                extractFileIdFromLink(fileLink)!,
+                localPath,
+                options.name,
+                options.mimeType
+            );
+            await this.folderDatabase.updateDatabase([file], existing.rootId!);
+
+            return (await this.folderDatabase.getFile(fileLink))!;
+        } catch (err) {
+            logger.error('Error updating file:', err);
+            if (err instanceof NotFoundError) {
+                throw err;
+            }
+            throw new Error(`Failed to update file: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Creates a folder in Google Drive and adds it to the indexed tree.
+     * @param name The name of the folder.
+     * @param parentFolderId The ID of the parent folder, defaulting to the root folder.
+     * @returns The created folder.
+     */
+    async createFolder(name: string, parentFolderId?: string): Promise<GoogleFolder> {
+        await this.ensureInitialized();
+
+        try {
+            const parentId = parentFolderId ?? this.config.folderId;
+            const rootId = await this.getRootIdOfFolder(parentId);
+
+            const folder = await this.googleDriveService.createFolder(name, parentId);
+            await this.folderDatabase.saveFolders([folder], rootId);
+
+            return folder;
+        } catch (err) {
+            logger.error('Error creating folder:', err);
+            if (err instanceof NotFoundError) {
+                throw err;
+            }
+            throw new Error(`Failed to create folder: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Finds the root a folder belongs to. The folder must be part of the indexed
+     * tree, so that what is created in it is picked up by later refreshes.
+     * @param folderId The ID of the folder.
+     * @returns The ID of the root folder.
+     */
+    private async getRootIdOfFolder(folderId: string): Promise<string> {
+        const folderRootIds = await this.folderDatabase.getFolderRootIds();
+        const rootId = folderRootIds.get(folderId);
+        if (!rootId) {
+            throw new NotFoundError('folder', folderId);
+        }
+        return rootId;
+    }
+
+    /**
+     * Checks whether a cached copy was exported to the format requested for it.
+     * @param fileLink The webViewLink of the file.
+     * @param cachedFilePath The path of the cached copy.
+     * @param options The download options.
+     * @returns True if the cached copy can be served.
+     */
+    private async matchesExportFormat(
+        fileLink: string,
+        cachedFilePath: string,
+        options: DownloadOptions
+    ): Promise<boolean> {
+        if (!options.exportFormat) {
+            return true;
+        }
+
+        const mimeType = await this.folderDatabase.getMimeType(fileLink);
+        const exportFormat = resolveExportFormat(mimeType ?? '', options.exportFormat);
+
+        return (
+            !exportFormat ||
+            path.extname(cachedFilePath) === `.${EXPORT_FORMATS[exportFormat].extension}`
+        );
+    }
+
+    /**
+     * Finds the cached copy of a file that can be served for the given options:
+     * one in the requested format, not changed in Drive since it was downloaded
+     * unless stale copies are allowed, and intact. A corrupt copy is deleted.
+     * @param fileLink The webViewLink of the file.
+     * @param options Download options such as the export format.
+     * @returns The path of the copy, or null if it has to be downloaded.
+     */
+    private async findCachedCopy(
+        fileLink: string,
+        options: DownloadOptions
+    ): Promise<string | null> {
+        const cachedFilePath = await this.folderDatabase.getLocalFilePath(fileLink);
+        if (
+            !cachedFilePath ||
+            !(await this.fileExists(cachedFilePath)) ||
+            !(await this.matchesExportFormat(fileLink, cachedFilePath, options))
+        ) {
+            return null;
+        }
+
+        const file = await this.folderDatabase.getFile(fileLink);
+        if (file?.stale && options.staleness !== 'allow') {
+            logger.info(
+                `File changed in Google Drive since ${cachedFilePath} was downloaded, fetching it again.`
+            );
+            return null;
+        }
+        if (file && !(await this.isCachedCopyIntact(file, cachedFilePath))) {
+            logger.warn(`Cached copy at ${cachedFilePath} is corrupt, discarding it.`);
+            await fs.unlink(cachedFilePath);
+            return null;
+        }
+
+        if (file?.stale) {
+            logger.warn(`Serving stale copy from ${cachedFilePath}`);
+        }
+        await this.folderDatabase.touchLocalFile(fileLink);
+        logger.info(`File retrieved from cache at ${cachedFilePath}`);
+        return cachedFilePath;
+    }
+
+    /**
+     * Checks a cached copy against the size, modification time and MD5 checksum
+     * recorded when it was downloaded. The copy is only hashed when it was
+     * written since, so that serving a large file does not read it whole.
+     * Exported Google Workspace files have no checksum.
+     * @param file The file the copy belongs to.
+     * @param cachedFilePath The path of the cached copy.
+     * @returns True if the cached copy matches the recorded values.
+     */
+    private async isCachedCopyIntact(
+        file: DatabaseFile,
+        cachedFilePath: string
+    ): Promise<boolean> {
+        const stats = await fs.stat(cachedFilePath);
+        if (file.localSize !== null && stats.size !== file.localSize) {
+            return false;
+        }
+
+        const mtimeMs = Math.floor(stats.mtimeMs);
+        if (mtimeMs === file.localMtimeMs) {
+            return true;
+        }
+        if (
+            file.localMd5Checksum !== null &&
+            (await computeFileMd5(cachedFilePath)) !== file.localMd5Checksum
+        ) {
+            return false;
+        }
+
+        await this.folderDatabase.updateLocalMtime(file.webViewLink, mtimeMs);
+        return true;
+    }
+
     /**
      * Checks if a file exists at the given path.
      * @param filePath The path of the file to check.
@@ -198,13 +777,21 @@ export class DriveFileManager {
 
     /**
      * Refreshes the local database by fetching the latest files from Google Drive.
+     * Only the changes since the previous refresh are applied when possible.
+     * @returns The refresh summary, including which mode ran.
      */
-    async refreshDatabase(): Promise<void> {
+    async refreshDatabase(): Promise<RefreshResult> {
         await this.ensureInitialized();
 
         try {
-            await this.folderDatabase.refresh();
-            logger.info('Database refreshed successfully.');
+            const result = await this.folderDatabase.refresh();
+            logger.info(`Database refreshed successfully (${result.mode} refresh).`);
+
+            if (this.config.contentIndexing === 'refresh') {
+                await this.contentIndexer.indexPendingFiles();
+            }
+
+            return result;
         } catch (err) {
             logger.error('Error refreshing the database:', err);
             throw new Error(`Failed to refresh database: ${(err as Error).message}`);
@@ -212,4 +799,52 @@ export class DriveFileManager {
     }
 }
 
-export {DriveFileManagerConfig, DatabaseFile} from '@/types';
+export {
+    DriveFileManagerConfig,
+    DatabaseFile,
+    FileOwner,
+    RefreshResult,
+    RefreshMode,
+    ContentIndexingMode,
+    DownloadOptions,
+    ExportFormat,
+    FileNamingStrategy,
+    StalenessPolicy,
+    CacheConfig,
+    CacheUsage,
+    PurgeCacheOptions,
+    MirrorOptions,
+    MirrorResult,
+    MirrorFailure,
+    UploadOptions,
+    UpdateFileOptions,
+    GoogleFolder,
+    RootFolder,
+    SearchOptions,
+    SearchFilters,
+    SearchOrder,
+    SearchPage,
+    AuthConfig,
+    TokenStore,
+    StoredToken,
+    RequestPolicy,
+    RequestStats,
+    TraversalOptions,
+    DatabaseFolder,
+    FolderChildren,
+    ServerOptions,
+} from '@/types';
+export {DriveFileServer} from '@/server';
+export {
+    FileTokenStore,
+    FileTokenStoreOptions,
+    MemoryTokenStore,
+    TOKEN_KEY_ENV,
+} from '@/services/token-store';
+export {
+    DatabaseVersionError,
+    QueryParseError,
+    SearchOptionsError,
+    NotFoundError,
+    CredentialsNotFoundError,
+} from '@/errors';
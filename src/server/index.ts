@@ -0,0 +1 @@
+export {DriveFileServer} from './server';
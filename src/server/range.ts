@@ -0,0 +1,54 @@
+export interface ByteRange {
+    start: number;
+    // Inclusive, as in Content-Range.
+    end: number;
+}
+
+/**
+ * Reads the Range header of a request for a file. Only single byte ranges are
+ * supported; other valid headers may be ignored, and the whole file served.
+ * @param header The Range header, if any.
+ * @param size The size of the file in bytes.
+ * @returns The range to serve, null to serve the whole file, or 'unsatisfiable'
+ * when the range lies outside the file.
+ */
+export function parseRange(
+    header: string | undefined,
+    size: number
+): ByteRange | 'unsatisfiable' | null {
+    const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (match[1] === '' && match[2] === '')) {
+        return null;
+    }
+
+    if (match[1] === '') {
+        // bytes=-500 asks for the last 500 bytes.
+        const suffix = Number(match[2]);
+        if (suffix === 0 || size === 0) {
+            return 'unsatisfiable';
+        }
+        return {start: Math.max(size - suffix, 0), end: size - 1};
+    }
+
+    const start = Number(match[1]);
+    const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+    if (start >= size) {
+        return 'unsatisfiable';
+    }
+    return end < start ? null : {start, end};
+}
+
+/**
+ * Checks an If-None-Match or If-Range header against the ETag of a file.
+ * @param header The header, a list of ETags or '*'.
+ * @param etag The current ETag.
+ * @param weak Whether weak ETags match too, as If-None-Match allows.
+ * @returns True if the header names the current ETag.
+ */
+export function matchesEtag(header: string, etag: string, weak: boolean): boolean {
+    return header.split(',').some(value => {
+        const tag = value.trim();
+        if (tag === '*') return weak;
+        return tag === etag || (weak && tag === `W/${etag}`);
+    });
+}
@@ -0,0 +1,97 @@
+import {ServerResponse} from 'http';
+import {NotFoundError, QueryParseError, SearchOptionsError} from '@/errors';
+import {DatabaseFile} from '@/types';
+
+/**
+ * Thrown by request handlers to answer with an HTTP error status.
+ */
+export class HttpError extends Error {
+    public readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+/**
+ * Sends a JSON response.
+ * @param res The response.
+ * @param status The HTTP status.
+ * @param body The value to send.
+ * @param headers Extra response headers.
+ */
+export function sendJson(
+    res: ServerResponse,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {}
+): void {
+    const json = JSON.stringify(body);
+    res.writeHead(status, {
+        ...headers,
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Length': Buffer.byteLength(json),
+    });
+    res.end(json);
+}
+
+/**
+ * Sends an error as JSON, with the status that matches its type: 400 for an
+ * invalid query or option, 404 for a file or folder that is not indexed and 500
+ * for anything else.
+ * @param res The response.
+ * @param err The error.
+ */
+export function sendError(res: ServerResponse, err: Error): void {
+    if (res.headersSent) {
+        // Part of a file was already sent, so the client can only tell from the
+        // connection closing early.
+        res.destroy(err);
+        return;
+    }
+
+    let status = 500;
+    if (err instanceof HttpError) {
+        status = err.status;
+    } else if (err instanceof QueryParseError || err instanceof SearchOptionsError) {
+        status = 400;
+    } else if (err instanceof NotFoundError) {
+        status = 404;
+    }
+
+    sendJson(res, status, {
+        error: {
+            type: err.name,
+            message: err.message,
+            ...(err instanceof QueryParseError ? {position: err.position} : {}),
+        },
+    });
+}
+
+/**
+ * Prepares a file for a response. The path of the downloaded copy only means
+ * something on the server, so it is left out.
+ * @param file The file.
+ * @returns The file without its local path.
+ */
+export function toFileResource(file: DatabaseFile): Omit<DatabaseFile, 'localPath'> {
+    const {localPath, ...resource} = file;
+    return resource;
+}
+
+/**
+ * Builds a Content-Disposition header that offers a file for download under its
+ * Drive name, with an ASCII fallback for old clients.
+ * @param fileName The name of the file.
+ * @returns The header value.
+ */
+export function contentDisposition(fileName: string): string {
+    const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    const encoded = encodeURIComponent(fileName).replace(
+        /['()*]/g,
+        char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,427 @@
+import crypto from 'crypto';
+import {FileHandle} from 'fs/promises';
+import http, {IncomingMessage, ServerResponse} from 'http';
+import {AddressInfo} from 'net';
+import {pipeline} from 'stream/promises';
+import {DriveFileManager} from '@/index';
+import {
+    EXPORT_FORMATS,
+    resolveExportFormat,
+} from '@/services/google-drive/export-formats';
+import {logger} from '@/utils/logger';
+import {
+    DownloadOptions,
+    ExportFormat,
+    RefreshResult,
+    SearchOptions,
+    SearchOrder,
+    ServerOptions,
+} from '@/types';
+import {matchesEtag, parseRange} from './range';
+import {
+    HttpError,
+    contentDisposition,
+    sendError,
+    sendJson,
+    toFileResource,
+} from './responses';
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+type RouteHandler = (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    params: string[]
+) => Promise<void>;
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    handler: RouteHandler;
+}
+
+/**
+ * Serves one DriveFileManager over HTTP, so that several processes can share
+ * its database, token and download cache.
+ *
+ * - GET /health: whether the server is up, without an API key
+ * - GET /search?q=: one page of search results
+ * - GET /files/{id}: the metadata of a file
+ * - GET /files/{id}/content: the file itself, with Range and ETag support
+ * - POST /refresh: updates the index from Google Drive
+ */
+export class DriveFileServer {
+    private manager: DriveFileManager;
+    private options: Required<ServerOptions>;
+    private server: http.Server;
+    private routes: Route[];
+    // Refresh requests that arrive while one is running share its result.
+    private refreshing: Promise<RefreshResult> | null = null;
+
+    constructor(manager: DriveFileManager, options: ServerOptions = {}) {
+        this.manager = manager;
+        this.options = {
+            port: options.port ?? DEFAULT_PORT,
+            host: options.host ?? DEFAULT_HOST,
+            apiKeys: options.apiKeys ?? [],
+        };
+        this.routes = [
+            {method: 'GET', pattern: /^\/health$/, handler: this.health},
+            {method: 'GET', pattern: /^\/search$/, handler: this.search},
+            {method: 'GET', pattern: /^\/files\/([^/]+)$/, handler: this.getFile},
+            {
+                method: 'GET',
+                pattern: /^\/files\/([^/]+)\/content$/,
+                handler: this.download,
+            },
+            {
+                method: 'HEAD',
+                pattern: /^\/files\/([^/]+)\/content$/,
+                handler: this.download,
+            },
+            {method: 'POST', pattern: /^\/refresh$/, handler: this.refresh},
+        ];
+        this.server = http.createServer((req, res) => {
+            this.handleRequest(req, res).catch(err => sendError(res, err as Error));
+        });
+    }
+
+    /**
+     * Starts accepting requests.
+     * @returns The address the server listens on, with the port picked by the
+     * system when the port option is 0.
+     */
+    async listen(): Promise<AddressInfo> {
+        const {port, host, apiKeys} = this.options;
+        if (apiKeys.length === 0 && !LOOPBACK_HOSTS.includes(host)) {
+            logger.warn(
+                `The HTTP server listens on ${host} without API keys; anyone who can reach it can read the indexed files.`
+            );
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+
+        const address = this.server.address() as AddressInfo;
+        logger.info(`HTTP server listening on ${address.address}:${address.port}.`);
+        return address;
+    }
+
+    /**
+     * Stops accepting requests and waits for the ones in progress to finish.
+     * The manager is left open.
+     */
+    async close(): Promise<void> {
+        if (!this.server.listening) {
+            return;
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            this.server.close(err => (err ? reject(err) : resolve()));
+            this.server.closeIdleConnections();
+        });
+        logger.info('HTTP server stopped.');
+    }
+
+    /**
+     * Routes a request to its handler after checking its API key.
+     * @param req The request.
+     * @param res The response.
+     */
+    private async handleRequest(
+        req: IncomingMessage,
+        res: ServerResponse
+    ): Promise<void> {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const matching = this.routes
+            .map(route => ({route, match: url.pathname.match(route.pattern)}))
+            .filter(({match}) => match !== null);
+
+        if (matching.length === 0) {
+            throw new HttpError(404, `No endpoint at ${url.pathname}.`);
+        }
+        const found = matching.find(({route}) => route.method === req.method);
+        if (!found) {
+            const allowed = matching.map(({route}) => route.method).join(', ');
+            sendJson(
+                res,
+                405,
+                {
+                    error: {
+                        type: 'HttpError',
+                        message: `Use ${allowed} for ${url.pathname}.`,
+                    },
+                },
+                {Allow: allowed}
+            );
+            return;
+        }
+
+        if (found.route.handler !== this.health && !this.isAuthorized(req)) {
+            sendJson(
+                res,
+                401,
+                {error: {type: 'HttpError', message: 'A valid API key is required.'}},
+                {'WWW-Authenticate': 'Bearer'}
+            );
+            return;
+        }
+
+        let params: string[];
+        try {
+            params = found.match!.slice(1).map(param => decodeURIComponent(param));
+        } catch {
+            throw new HttpError(400, `Malformed path ${url.pathname}.`);
+        }
+        await found.route.handler.call(this, req, res, url, params);
+    }
+
+    /**
+     * Checks the API key of a request, sent as a bearer token or in X-API-Key.
+     * @param req The request.
+     * @returns True if no keys are configured or the request has one of them.
+     */
+    private isAuthorized(req: IncomingMessage): boolean {
+        const {apiKeys} = this.options;
+        if (apiKeys.length === 0) {
+            return true;
+        }
+
+        const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+        const header = req.headers['x-api-key'];
+        const key = bearer ?? (Array.isArray(header) ? header[0] : header);
+        if (!key) {
+            return false;
+        }
+
+        // Hashing first gives equal lengths, as timingSafeEqual requires.
+        const digest = (value: string) =>
+            crypto.createHash('sha256').update(value).digest();
+        return apiKeys.some(apiKey =>
+            crypto.timingSafeEqual(digest(apiKey), digest(key))
+        );
+    }
+
+    /**
+     * GET /health
+     */
+    private async health(_req: IncomingMessage, res: ServerResponse): Promise<void> {
+        sendJson(res, 200, {status: 'ok'});
+    }
+
+    /**
+     * GET /search?q=&limit=&cursor=&offset=&sort=&direction=&root=&folder=&fuzzy=
+     */
+    private async search(
+        _req: IncomingMessage,
+        res: ServerResponse,
+        url: URL
+    ): Promise<void> {
+        const params = url.searchParams;
+        const options: SearchOptions = {
+            limit: getIntegerParam(params, 'limit'),
+            offset: getIntegerParam(params, 'offset'),
+            cursor: params.get('cursor') ?? undefined,
+            orderBy: (params.get('sort') ?? undefined) as SearchOrder | undefined,
+            direction: (params.get('direction') ?? undefined) as
+                | 'asc'
+                | 'desc'
+                | undefined,
+            rootId: params.get('root') ?? undefined,
+            folderId: params.get('folder') ?? undefined,
+            fuzzy: params.get('fuzzy') === 'false' ? false : undefined,
+        };
+
+        const page = await this.manager.searchFiles(params.get('q') ?? '', options);
+        sendJson(res, 200, {...page, results: page.results.map(toFileResource)});
+    }
+
+    /**
+     * GET /files/{id}
+     */
+    private async getFile(
+        _req: IncomingMessage,
+        res: ServerResponse,
+        _url: URL,
+        [fileId]: string[]
+    ): Promise<void> {
+        sendJson(res, 200, toFileResource(await this.manager.getFile(fileId)));
+    }
+
+    /**
+     * GET or HEAD /files/{id}/content?format=&allowStale=
+     *
+     * Downloads the file into the cache if needed, then streams it. The ETag
+     * changes whenever the cached copy does, and the copy is not evicted while
+     * it is being sent. HEAD requests do not download anything.
+     */
+    private async download(
+        req: IncomingMessage,
+        res: ServerResponse,
+        url: URL,
+        [fileId]: string[]
+    ): Promise<void> {
+        const requested = url.searchParams.get('format') ?? undefined;
+        if (requested !== undefined && !(requested in EXPORT_FORMATS)) {
+            throw new HttpError(
+                400,
+                `format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}.`
+            );
+        }
+
+        const file = await this.manager.getFile(fileId);
+        let exportFormat: ExportFormat | null;
+        try {
+            exportFormat = file.mimeType
+                ? resolveExportFormat(
+                      file.mimeType,
+                      requested as ExportFormat | undefined
+                  )
+                : null;
+        } catch (err) {
+            throw new HttpError(400, (err as Error).message);
+        }
+
+        const format = exportFormat ? EXPORT_FORMATS[exportFormat] : null;
+        const contentType =
+            format?.mimeType ?? file.mimeType ?? 'application/octet-stream';
+        const fileName =
+            format && !file.name.toLowerCase().endsWith(`.${format.extension}`)
+                ? `${file.name}.${format.extension}`
+                : file.name;
+        const options: DownloadOptions = {
+            exportFormat: exportFormat ?? undefined,
+            staleness:
+                url.searchParams.get('allowStale') === 'true' ? 'allow' : undefined,
+        };
+
+        // HEAD never starts a download: it is answered from the cached copy when
+        // there is one, and from the indexed metadata otherwise.
+        if (req.method === 'HEAD') {
+            const sent = await this.manager.withCachedFile(
+                fileId,
+                options,
+                async handle => {
+                    await this.sendFile(req, res, handle, contentType, fileName);
+                    return true;
+                }
+            );
+            if (!sent) {
+                res.writeHead(200, {
+                    'Accept-Ranges': 'bytes',
+                    'Cache-Control': 'private, no-cache',
+                    'Content-Type': contentType,
+                    'Content-Disposition': contentDisposition(fileName),
+                    // Exports are generated on download, so their size is unknown.
+                    ...(format || file.size === null
+                        ? {}
+                        : {'Content-Length': file.size}),
+                });
+                res.end();
+            }
+            return;
+        }
+
+        await this.manager.withDownloadedFile(fileId, options, handle =>
+            this.sendFile(req, res, handle, contentType, fileName)
+        );
+    }
+
+    /**
+     * Sends a local copy, or the requested range of it. The headers and the body
+     * are read from one open handle, so they describe the same copy even if it
+     * is replaced while it is being sent.
+     * @param req The request, for its conditional and range headers.
+     * @param res The response.
+     * @param handle The open local copy.
+     * @param contentType The type of the content.
+     * @param fileName The name offered for saving the file.
+     */
+    private async sendFile(
+        req: IncomingMessage,
+        res: ServerResponse,
+        handle: FileHandle,
+        contentType: string,
+        fileName: string
+    ): Promise<void> {
+        const stats = await handle.stat();
+        const etag = `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+
+        const headers: Record<string, string | number> = {
+            'Accept-Ranges': 'bytes',
+            'Cache-Control': 'private, no-cache',
+            ETag: etag,
+            'Last-Modified': stats.mtime.toUTCString(),
+        };
+
+        const ifNoneMatch = req.headers['if-none-match'];
+        if (ifNoneMatch && matchesEtag(ifNoneMatch, etag, true)) {
+            res.writeHead(304, headers);
+            res.end();
+            return;
+        }
+
+        // A range is only served if the client still has the same version. If-Range
+        // dates are not compared, so they always get the whole file.
+        const ifRange = req.headers['if-range'] as string | undefined;
+        const range =
+            ifRange && !matchesEtag(ifRange, etag, false)
+                ? null
+                : parseRange(req.headers.range, stats.size);
+        if (range === 'unsatisfiable') {
+            res.writeHead(416, {...headers, 'Content-Range': `bytes */${stats.size}`});
+            res.end();
+            return;
+        }
+
+        const start = range?.start ?? 0;
+        const end = range?.end ?? stats.size - 1;
+        res.writeHead(range ? 206 : 200, {
+            ...headers,
+            'Content-Type': contentType,
+            'Content-Disposition': contentDisposition(fileName),
+            'Content-Length': end - start + 1,
+            ...(range ? {'Content-Range': `bytes ${start}-${end}/${stats.size}`} : {}),
+        });
+
+        if (req.method === 'HEAD' || stats.size === 0) {
+            res.end();
+            return;
+        }
+        await pipeline(handle.createReadStream({start, end, autoClose: false}), res);
+    }
+
+    /**
+     * POST /refresh
+     */
+    private async refresh(_req: IncomingMessage, res: ServerResponse): Promise<void> {
+        this.refreshing ??= this.manager.refreshDatabase().finally(() => {
+            this.refreshing = null;
+        });
+        sendJson(res, 200, await this.refreshing);
+    }
+}
+
+/**
+ * Reads a query parameter holding a whole number.
+ * @param params The query parameters.
+ * @param name The parameter name.
+ * @returns The number, or undefined if the parameter is absent.
+ * @throws HttpError when the value is not a whole number.
+ */
+function getIntegerParam(params: URLSearchParams, name: string): number | undefined {
+    const value = params.get(name);
+    if (value === null) return undefined;
+    if (!/^\d+$/.test(value)) {
+        throw new HttpError(400, `${name} must be a whole number.`);
+    }
+    return Number(value);
+}
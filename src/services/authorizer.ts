@@ -1,30 +1,37 @@
 import fs from 'fs/promises';
-import path from 'path';
+import readline from 'readline/promises';
 import {authenticate} from '@google-cloud/local-auth';
 import {Auth, google} from 'googleapis';
-import {ensureDirectoryExists} from '@/utils';
 import {logger} from '@/utils/logger';
-import {InternalDriveFileManagerConfig} from '@/types';
+import {InternalDriveFileManagerConfig, TokenStore} from '@/types';
+
+const SCOPES = ['https://www.googleapis.com/auth/drive'];
 
 export async function loadSavedCredentialsIfExist(
-    tokenPath: string
+    tokenStore: TokenStore
 ): Promise<Auth.OAuth2Client | null> {
+    // A store that cannot be read, such as an encrypted file with the wrong key,
+    // fails here instead of starting a new sign-in that would overwrite it.
+    const credentials = await tokenStore.load();
+    if (!credentials) {
+        logger.info('No saved credentials found.');
+        return null;
+    }
+
     try {
-        const content = await fs.readFile(tokenPath, 'utf-8');
-        const credentials = JSON.parse(content);
         const client = google.auth.fromJSON(credentials) as Auth.OAuth2Client;
         client.setCredentials(credentials);
         logger.info('Loaded saved credentials.');
         return client;
     } catch (err) {
-        logger.warn('No saved credentials found or failed to load:', err);
+        logger.warn('Failed to load saved credentials:', err);
         return null;
     }
 }
 
 export async function saveCredentials(
     client: Auth.OAuth2Client,
-    tokenPath: string,
+    tokenStore: TokenStore,
     credentialsPath: string
 ): Promise<void> {
     try {
@@ -32,18 +39,14 @@ export async function saveCredentials(
         const keys = JSON.parse(content);
         const key = keys.installed || keys.web;
 
-        const payload = JSON.stringify({
+        await tokenStore.save({
             type: 'authorized_user',
             client_id: key.client_id,
             client_secret: key.client_secret,
-            refresh_token: client.credentials.refresh_token,
+            refresh_token: client.credentials.refresh_token ?? null,
             access_token: client.credentials.access_token,
             expiry_date: client.credentials.expiry_date,
         });
-
-        const tokenDir = path.dirname(tokenPath);
-        await ensureDirectoryExists(tokenDir);
-        await fs.writeFile(tokenPath, payload);
         logger.info('Credentials saved successfully.');
     } catch (err) {
         logger.error('Error saving credentials:', err);
@@ -51,13 +54,124 @@ export async function saveCredentials(
     }
 }
 
+/**
+ * Saves the tokens google-auth-library obtains on its own, so that a refreshed
+ * access token survives a restart. Google only sends the refresh token on the
+ * first sign-in, so the one already stored is kept when none is returned.
+ * @param client The authorized client.
+ * @param tokenStore The store the token is kept in.
+ */
+function persistRefreshedTokens(client: Auth.OAuth2Client, tokenStore: TokenStore): void {
+    client.on('tokens', tokens => {
+        void (async () => {
+            const stored = await tokenStore.load();
+            if (!stored) {
+                return;
+            }
+            await tokenStore.save({
+                ...stored,
+                refresh_token: tokens.refresh_token ?? stored.refresh_token,
+                access_token: tokens.access_token,
+                expiry_date: tokens.expiry_date,
+            });
+        })().catch(err => {
+            logger.warn('Failed to save refreshed credentials:', err);
+        });
+    });
+}
+
+/**
+ * Returns the credentials file the configured auth strategy reads, if any.
+ * @param config The configuration with resolved paths.
+ * @returns The path of the required file, or null if the strategy needs none.
+ */
+export function getRequiredCredentialsPath(
+    config: InternalDriveFileManagerConfig
+): string | null {
+    const auth = config.auth ?? {type: 'browser'};
+    switch (auth.type) {
+        case 'client':
+            return null;
+        case 'service-account':
+            return auth.keyFile ?? config.credentialsPath;
+        default:
+            return config.credentialsPath;
+    }
+}
+
+/**
+ * Authorizes access to Google Drive with the strategy selected by `config.auth`:
+ * a user signing in through a browser (the default) or by pasting a code on a
+ * headless machine, a service account key, or a client built by the caller.
+ * @param config The configuration with resolved paths.
+ * @returns The authorized client.
+ */
 export async function authorize(
     config: InternalDriveFileManagerConfig
 ): Promise<Auth.OAuth2Client> {
-    const {tokenPath, credentialsPath} = config;
-    let client = await loadSavedCredentialsIfExist(tokenPath);
+    const auth = config.auth ?? {type: 'browser'};
+    switch (auth.type) {
+        case 'client':
+            return auth.client;
+        case 'service-account':
+            return authorizeServiceAccount(
+                auth.keyFile ?? config.credentialsPath,
+                auth.subject
+            );
+        case 'headless':
+            return authorizeUser(config, credentialsPath =>
+                authenticateHeadless(credentialsPath, auth.promptCode ?? promptForCode)
+            );
+        default:
+            return authorizeUser(config, credentialsPath =>
+                authenticate({scopes: SCOPES, keyfilePath: credentialsPath})
+            );
+    }
+}
+
+/**
+ * Authorizes a service account from its JSON key.
+ * @param keyFile The path of the service account key.
+ * @param subject The user to impersonate through domain-wide delegation, if any.
+ * @returns The authorized client.
+ */
+async function authorizeServiceAccount(
+    keyFile: string,
+    subject?: string
+): Promise<Auth.OAuth2Client> {
+    try {
+        const client = new google.auth.JWT({keyFile, scopes: SCOPES, subject});
+        await client.authorize();
+        logger.info(
+            subject
+                ? `Authorized service account on behalf of ${subject}.`
+                : 'Authorized service account.'
+        );
+        return client;
+    } catch (err) {
+        logger.error('Error authorizing service account:', err);
+        throw new Error(
+            `Failed to authorize the service account: ${(err as Error).message}`
+        );
+    }
+}
+
+/**
+ * Authorizes a user with the saved token, or signs them in and saves a new one.
+ * @param config The configuration with resolved paths.
+ * @param signIn Runs the interactive sign-in with the given credentials file.
+ * @returns The authorized client.
+ */
+async function authorizeUser(
+    config: InternalDriveFileManagerConfig,
+    signIn: (credentialsPath: string) => Promise<Auth.OAuth2Client>
+): Promise<Auth.OAuth2Client> {
+    const {tokenStore, credentialsPath} = config;
+    let client = await loadSavedCredentialsIfExist(tokenStore);
 
     if (client) {
+        // Attached first, so that an expired token refreshed right away is saved too.
+        persistRefreshedTokens(client, tokenStore);
         try {
             await client.getAccessToken();
             return client;
@@ -65,9 +179,7 @@ export async function authorize(
         } catch (err: any) {
             if (err?.response?.data?.error === 'invalid_grant') {
                 logger.warn('Invalid refresh token. Reauthenticating...');
-                await fs.unlink(tokenPath).catch(() => {
-                    logger.warn('Token file does not exist.');
-                });
+                await tokenStore.clear();
                 client = null;
             } else {
                 logger.error('Error obtaining access token:', err);
@@ -77,13 +189,11 @@ export async function authorize(
     }
 
     if (!client) {
-        client = await authenticate({
-            scopes: ['https://www.googleapis.com/auth/drive'],
-            keyfilePath: credentialsPath,
-        });
+        client = await signIn(credentialsPath);
 
         if (client.credentials) {
-            await saveCredentials(client, tokenPath, credentialsPath);
+            await saveCredentials(client, tokenStore, credentialsPath);
+            persistRefreshedTokens(client, tokenStore);
             return client;
         } else {
             throw new Error(
@@ -94,3 +204,63 @@ export async function authorize(
 
     throw new Error('Authorization failed. Please reauthorize the application.');
 }
+
+/**
+ * Signs a user in without opening a browser on this machine. The consent page
+ * is opened anywhere else; it then redirects to a localhost address that does
+ * not load, and the code in that address is pasted back here.
+ * @param credentialsPath The path of the OAuth client credentials.
+ * @param promptCode Shows the consent URL and returns what the user pasted.
+ * @returns The authorized client.
+ */
+async function authenticateHeadless(
+    credentialsPath: string,
+    promptCode: (authUrl: string) => Promise<string>
+): Promise<Auth.OAuth2Client> {
+    const content = await fs.readFile(credentialsPath, 'utf-8');
+    const keys = JSON.parse(content);
+    const key = keys.installed || keys.web;
+
+    const client = new google.auth.OAuth2(
+        key.client_id,
+        key.client_secret,
+        key.redirect_uris?.[0] ?? 'http://localhost'
+    );
+    const authUrl = client.generateAuthUrl({
+        access_type: 'offline',
+        prompt: 'consent',
+        scope: SCOPES,
+    });
+
+    const answer = (await promptCode(authUrl)).trim();
+    // Either the bare code or the whole address the browser was redirected to.
+    const code = answer.includes('code=')
+        ? new URL(answer, 'http://localhost').searchParams.get('code')
+        : answer;
+    if (!code) {
+        throw new Error('No authorization code was provided.');
+    }
+
+    const {tokens} = await client.getToken(code);
+    client.setCredentials(tokens);
+    return client;
+}
+
+/**
+ * Prints the consent URL and reads the pasted code from the terminal.
+ * @param authUrl The consent URL.
+ * @returns The line the user entered.
+ */
+async function promptForCode(authUrl: string): Promise<string> {
+    const rl = readline.createInterface({input: process.stdin, output: process.stderr});
+    try {
+        console.error('\nOpen this URL in a browser on any device and grant access:');
+        console.error(`${authUrl}\n`);
+        console.error(
+            'The browser then tries to open a localhost address that does not load.'
+        );
+        return await rl.question('Paste that address, or the code in it, here: ');
+    } finally {
+        rl.close();
+    }
+}
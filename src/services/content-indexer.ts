@@ -0,0 +1,115 @@
+import path from 'path';
+import fs from 'fs/promises';
+import pdfParse from 'pdf-parse';
+import {Logger} from '@/utils/logger';
+import {GoogleDriveService} from '@/services/google-drive';
+import {FolderDatabase} from '@/services/database';
+
+const GOOGLE_DOCS_MIME_TYPE = 'application/vnd.google-apps.document';
+const PDF_MIME_TYPE = 'application/pdf';
+const TEXT_MIME_TYPES = ['text/plain', 'text/markdown', 'text/csv'];
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+    '.pdf': PDF_MIME_TYPE,
+    '.txt': 'text/plain',
+    '.md': 'text/markdown',
+    '.csv': 'text/csv',
+};
+
+// Keeps a single huge document from bloating the database.
+const MAX_CONTENT_LENGTH = 500_000;
+
+export class ContentIndexer {
+    private googleDriveService: GoogleDriveService;
+    private folderDatabase: FolderDatabase;
+    private logger: Logger;
+
+    constructor(
+        googleDriveService: GoogleDriveService,
+        folderDatabase: FolderDatabase,
+        logger: Logger
+    ) {
+        this.googleDriveService = googleDriveService;
+        this.folderDatabase = folderDatabase;
+        this.logger = logger;
+    }
+
+    /**
+     * Extracts and stores the text of every supported file that has not been
+     * indexed yet or changed since. Google Docs are exported as plain text by
+     * Drive, everything else is parsed locally.
+     * @returns The number of files indexed.
+     */
+    async indexPendingFiles(): Promise<number> {
+        const pending = await this.folderDatabase.getFilesWithoutContent([
+            GOOGLE_DOCS_MIME_TYPE,
+            PDF_MIME_TYPE,
+            ...TEXT_MIME_TYPES,
+        ]);
+
+        this.logger.info(`Indexing content of ${pending.length} file(s)...`);
+
+        let indexed = 0;
+        for (const file of pending) {
+            try {
+                const isGoogleDoc = file.mimeType === GOOGLE_DOCS_MIME_TYPE;
+                const buffer = await this.googleDriveService.fetchFileContent(
+                    file.id,
+                    isGoogleDoc ? 'text/plain' : undefined
+                );
+                const text = await this.extractText(
+                    buffer,
+                    isGoogleDoc ? 'text/plain' : file.mimeType
+                );
+                await this.folderDatabase.saveFileContent(file.id, text);
+                indexed++;
+            } catch (err) {
+                // Broken files are only retried a few times, not on every refresh.
+                this.logger.warn(`Could not index content of "${file.name}":`, err);
+                await this.folderDatabase.recordContentFailure(file.id);
+            }
+        }
+
+        this.logger.info(`Indexed content of ${indexed} file(s).`);
+        return indexed;
+    }
+
+    /**
+     * Extracts and stores the text of a downloaded file without contacting Drive.
+     * @param fileId The ID of the file.
+     * @param localPath The path of the downloaded copy.
+     * @returns True if the file type is supported and its text was stored.
+     */
+    async indexLocalFile(fileId: string, localPath: string): Promise<boolean> {
+        const mimeType = MIME_TYPES_BY_EXTENSION[path.extname(localPath).toLowerCase()];
+        if (!mimeType) {
+            return false;
+        }
+
+        try {
+            const buffer = await fs.readFile(localPath);
+            const text = await this.extractText(buffer, mimeType);
+            await this.folderDatabase.saveFileContent(fileId, text);
+            this.logger.info(`Indexed content of ${localPath}.`);
+            return true;
+        } catch (err) {
+            this.logger.warn(`Could not index content of ${localPath}:`, err);
+            return false;
+        }
+    }
+
+    /**
+     * Extracts plain text from a file content.
+     * @param buffer The file content.
+     * @param mimeType The mime type of the content.
+     * @returns The extracted text.
+     */
+    private async extractText(buffer: Buffer, mimeType: string): Promise<string> {
+        const text =
+            mimeType === PDF_MIME_TYPE
+                ? (await pdfParse(buffer)).text
+                : buffer.toString('utf-8');
+
+        return text.replace(/\s+/g, ' ').trim().slice(0, MAX_CONTENT_LENGTH);
+    }
+}
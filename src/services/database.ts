@@ -2,41 +2,122 @@ import sqlite3 from 'sqlite3';
 import {open, Database, Statement} from 'sqlite';
 import {Logger} from '@/utils/logger';
 import {GoogleDriveService} from '@/services/google-drive';
-import {escapeSingleQuotes} from '@/utils';
-import {GoogleFile, RefreshResult, DatabaseFile} from '@/types';
-import {extractFileIdFromLink} from '@/utils';
+import {SchemaMigrator} from '@/services/migrations';
+import {getNameStem} from '@/services/google-drive/file-namer';
+import {
+    DatabaseVersionError,
+    NotFoundError,
+    QueryParseError,
+    SearchOptionsError,
+} from '@/errors';
+import {
+    CompiledQuery,
+    QueryNode,
+    VocabularyTerm,
+    buildFilterQuery,
+    collectFuzzyWords,
+    combine,
+    compileQuery,
+    decodeCursor,
+    encodeCursor,
+    expandFuzzyWords,
+    findCorrections,
+    fingerprintSearch,
+    parseQuery,
+} from '@/services/search-query';
+import {
+    GoogleFile,
+    GoogleFolder,
+    RefreshResult,
+    DatabaseFile,
+    PendingContentFile,
+    CachedFile,
+    DownloadedVersion,
+    RootFolder,
+    SearchOptions,
+    SearchOrder,
+    SearchPage,
+    TraversalOptions,
+    DatabaseFolder,
+    FolderChildren,
+} from '@/types';
+import {chunkArray, extractFileIdFromLink, normalizeForSearch} from '@/utils';
 
-type SQLiteDB = Database<sqlite3.Database, sqlite3.Statement>;
+export type SQLiteDB = Database<sqlite3.Database, sqlite3.Statement>;
 type SQLiteStmt = Statement;
+type FileRow = Omit<DatabaseFile, 'parents' | 'owners' | 'pinned' | 'stale'> & {
+    parents: string | null;
+    owners: string | null;
+    pinned: number;
+    stale: number;
+};
+type FolderRow = Omit<DatabaseFolder, 'parents'> & {parents: string | null};
+
+// The path of a file is the path of its first parent in the tree, plus its name.
+const FILE_PATH_COLUMN = `
+    COALESCE(
+        (SELECT folders.path FROM json_each(files.parents)
+         JOIN folders ON folders.id = json_each.value
+         ORDER BY json_each.key LIMIT 1) || '/' || files.name,
+        files.name
+    ) AS path`;
+
+const START_PAGE_TOKEN_KEY = 'startPageToken';
+const MAX_DEPTH_KEY = 'maxDepth';
+const REFRESH_GENERATION_KEY = 'refreshGeneration';
+const SEARCH_INDEX_VERSION_KEY = 'searchIndexVersion';
+// Searches finding fewer files than this look for misspelled words as well.
+const FUZZY_MIN_RESULTS = 5;
+// Files whose content could not be extracted this many times are left alone
+// until they change in Drive.
+const MAX_CONTENT_ATTEMPTS = 3;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 1000;
+// Sort keys of search results. Files without a value sort before all others.
+const SEARCH_ORDERS: SearchOrder[] = ['relevance', 'name', 'modifiedTime', 'size'];
+const SORT_COLUMNS = {
+    name: 'files.name',
+    modifiedTime: "COALESCE(files.modifiedTime, '')",
+    size: 'COALESCE(files.size, -1)',
+};
 
 export class FolderDatabase {
     private db!: SQLiteDB;
     private googleDriveService: GoogleDriveService;
-    private folderId: string;
+    private rootIds: string[];
+    private traversal: TraversalOptions;
     private databasePath: string;
     private logger: Logger;
+    // Roots being scanned, with the generation of the scan and the folders
+    // created while it runs. Writes made in the meantime are stamped with that
+    // generation, so that the scan does not sweep them.
+    private activeScans = new Map<string, {generation: number; folderIds: Set<string>}>();
+
+    // Writes waiting for the connection; see serialize.
+    private writeQueue: Promise<unknown> = Promise.resolve();
 
     // We are caching prepared statements
     private insertOrUpdateStmt!: SQLiteStmt;
     private selectLocalPathStmt!: SQLiteStmt;
     private updateLocalPathStmt!: SQLiteStmt;
     private checkFileExistsStmt!: SQLiteStmt;
-    private searchStmt!: SQLiteStmt;
 
     constructor(
         googleDriveService: GoogleDriveService,
-        folderId: string,
+        rootIds: string[],
+        traversal: TraversalOptions,
         databasePath: string,
         logger: Logger
     ) {
         this.googleDriveService = googleDriveService;
-        this.folderId = folderId;
+        this.rootIds = rootIds;
+        this.traversal = traversal;
         this.databasePath = databasePath;
         this.logger = logger;
     }
 
     /**
-     * Initializes the SQLite database, creates necessary tables, indexes,
+     * Initializes the SQLite database, migrates its schema to the latest version,
      * and prepares frequently used statements.
      */
     async initDatabase(): Promise<void> {
@@ -46,25 +127,17 @@ export class FolderDatabase {
                 driver: sqlite3.Database,
             });
 
-            await this.db.exec(`
-                CREATE TABLE IF NOT EXISTS files (
-                    id TEXT PRIMARY KEY,
-                    name TEXT NOT NULL,
-                    parents TEXT,
-                    webViewLink TEXT NOT NULL,
-                    localPath TEXT
-                );
-            `);
-
-            await this.db.exec(`
-                CREATE INDEX IF NOT EXISTS idx_name ON files(name);
-            `);
+            const migrator = new SchemaMigrator(this.db, this.databasePath, this.logger);
+            await migrator.migrate();
 
             this.logger.info('SQLite database initialized successfully.');
 
             await this.prepareStatements();
         } catch (err) {
             this.logger.error('Error initializing SQLite database:', err);
+            if (err instanceof DatabaseVersionError) {
+                throw err;
+            }
             throw new Error('Failed to initialize the database.');
         }
     }
@@ -75,12 +148,45 @@ export class FolderDatabase {
     private async prepareStatements(): Promise<void> {
         try {
             this.insertOrUpdateStmt = await this.db.prepare(`
-                INSERT INTO files (id, name, parents, webViewLink, localPath)
-                VALUES (?, ?, ?, ?, COALESCE((SELECT localPath FROM files WHERE id = ?), NULL))
+                INSERT INTO files (
+                    id, name, parents, webViewLink, mimeType, size, modifiedTime,
+                    createdTime, md5Checksum, fileExtension, version, owners, rootId,
+                    refreshGeneration, localPath
+                )
+                VALUES (
+                    ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+                    COALESCE((SELECT localPath FROM files WHERE id = ?), NULL)
+                )
                 ON CONFLICT(id) DO UPDATE SET
                     name = excluded.name,
+                    rootId = excluded.rootId,
+                    refreshGeneration = COALESCE(
+                        excluded.refreshGeneration,
+                        files.refreshGeneration
+                    ),
                     parents = excluded.parents,
-                    webViewLink = excluded.webViewLink;
+                    webViewLink = excluded.webViewLink,
+                    mimeType = excluded.mimeType,
+                    size = excluded.size,
+                    modifiedTime = excluded.modifiedTime,
+                    createdTime = excluded.createdTime,
+                    md5Checksum = excluded.md5Checksum,
+                    fileExtension = excluded.fileExtension,
+                    version = excluded.version,
+                    owners = excluded.owners,
+                    stale = CASE
+                        WHEN files.localPath IS NULL THEN 0
+                        WHEN excluded.md5Checksum IS NOT NULL
+                            AND files.localMd5Checksum IS NOT NULL
+                            THEN excluded.md5Checksum <> files.localMd5Checksum
+                        WHEN excluded.modifiedTime IS NOT NULL
+                            AND files.localModifiedTime IS NOT NULL
+                            THEN excluded.modifiedTime > files.localModifiedTime
+                        WHEN excluded.version IS NOT NULL
+                            AND files.localVersion IS NOT NULL
+                            THEN excluded.version > files.localVersion
+                        ELSE files.stale
+                    END;
             `);
 
             this.selectLocalPathStmt = await this.db.prepare(`
@@ -88,16 +194,21 @@ export class FolderDatabase {
             `);
 
             this.updateLocalPathStmt = await this.db.prepare(`
-                UPDATE files SET localPath = ? WHERE id = ?;
+                UPDATE files SET
+                    localPath = ?,
+                    localSize = ?,
+                    localMtimeMs = ?,
+                    lastAccessedAt = ?,
+                    localModifiedTime = COALESCE(?, modifiedTime),
+                    localMd5Checksum = COALESCE(?, md5Checksum),
+                    localVersion = COALESCE(?, version),
+                    stale = 0
+                WHERE id = ?;
             `);
 
             this.checkFileExistsStmt = await this.db.prepare(`
                 SELECT 1 FROM files WHERE id = ? LIMIT 1;
             `);
-
-            this.searchStmt = await this.db.prepare(`
-                SELECT * FROM files WHERE name LIKE ?;
-            `);
         } catch (err) {
             this.logger.error('Error preparing SQL statements:', err);
             throw new Error('Failed to prepare SQL statements.');
@@ -113,7 +224,6 @@ export class FolderDatabase {
             await this.selectLocalPathStmt.finalize();
             await this.updateLocalPathStmt.finalize();
             await this.checkFileExistsStmt.finalize();
-            await this.searchStmt.finalize();
             await this.db.close();
             this.logger.info('SQLite database closed successfully.');
         } catch (err) {
@@ -122,132 +232,1244 @@ export class FolderDatabase {
     }
 
     /**
-     * Retrieves all existing file IDs from the database.
-     * @returns A Set of file IDs.
+     * Runs a write once every earlier one has finished. All writes share one
+     * connection, so a write made while another one's transaction is open would
+     * be committed or rolled back with it, and a second BEGIN would fail.
+     * @param write The write to run.
+     * @returns What the write returns.
+     */
+    private serialize<T>(write: () => Promise<T>): Promise<T> {
+        const result = this.writeQueue.then(write);
+        this.writeQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Counts how many of the given files are already in the database.
+     * The IDs are passed as a single JSON array to stay below the bound parameter limit.
+     * @param fileIds The IDs of the files.
+     * @returns The number of files found.
      */
-    async getExistingFileIds(): Promise<Set<string>> {
+    async countExistingFiles(fileIds: string[]): Promise<number> {
         try {
-            const rows: Pick<DatabaseFile, 'id'>[] =
-                await this.db.all(`SELECT id FROM files;`);
-            return new Set(rows.map(row => row.id));
+            const row = await this.db.get<{count: number}>(
+                `SELECT COUNT(*) AS count FROM files
+                 WHERE id IN (SELECT value FROM json_each(?));`,
+                [JSON.stringify(fileIds)]
+            );
+            return row?.count ?? 0;
         } catch (err) {
-            this.logger.error('Error fetching existing file IDs:', err);
-            throw new Error('Failed to fetch existing file IDs.');
+            this.logger.error('Error counting existing files:', err);
+            throw new Error(`Failed to count existing files: ${(err as Error).message}`);
         }
     }
 
     /**
      * Updates the database with new and existing files in bulk within a transaction.
      * @param files Array of GoogleFile objects to be inserted or updated.
+     * @param rootId The ID of the root folder the files belong to.
+     * @param generation The generation of the scan that listed the files, if any.
+     * Files written while their root is scanned get the generation of that scan.
+     */
+    async updateDatabase(
+        files: GoogleFile[],
+        rootId: string,
+        generation: number | null = null
+    ): Promise<void> {
+        generation ??= this.activeScans.get(rootId)?.generation ?? null;
+
+        return this.serialize(async () => {
+            try {
+                await this.db.run('BEGIN TRANSACTION;');
+                for (const file of files) {
+                    const parentsStr = file.parents ? JSON.stringify(file.parents) : null;
+                    await this.insertOrUpdateStmt.run(
+                        file.id,
+                        file.name,
+                        parentsStr,
+                        file.webViewLink,
+                        file.mimeType,
+                        file.size,
+                        file.modifiedTime,
+                        file.createdTime,
+                        file.md5Checksum,
+                        file.fileExtension,
+                        file.version,
+                        JSON.stringify(file.owners),
+                        rootId,
+                        generation,
+                        file.id
+                    );
+                }
+                await this.db.run('COMMIT;');
+                this.logger.info('Database updated successfully.');
+            } catch (err) {
+                await this.db.run('ROLLBACK;');
+                this.logger.error('Error during database update:', err);
+                throw new Error(`Failed to update database: ${(err as Error).message}`);
+            }
+        });
+    }
+
+    /**
+     * Deletes the files of a root folder that the given scan did not see, nor
+     * were written while it ran, so that removed files are found without listing
+     * every current file ID.
+     * @param rootId The ID of the root folder that was scanned.
+     * @param generation The generation the scan marked the files it saw with.
+     * @returns The number of deleted files.
      */
-    async updateDatabase(files: GoogleFile[]): Promise<void> {
+    async sweepRemovedFiles(rootId: string, generation: number): Promise<number> {
+        return this.serialize(async () => {
+            try {
+                const result = await this.db.run(
+                    `DELETE FROM files WHERE rootId = ? AND refreshGeneration IS NOT ?;`,
+                    [rootId, generation]
+                );
+                this.logger.info(
+                    `Deleted ${result.changes} removed files from the database.`
+                );
+                return result.changes ?? 0;
+            } catch (err) {
+                this.logger.error('Error deleting removed files:', err);
+                throw new Error(
+                    `Failed to delete removed files: ${(err as Error).message}`
+                );
+            }
+        });
+    }
+
+    /**
+     * Deletes the given files from the database.
+     * Runs in chunks to stay below SQLite's bound parameter limit.
+     * @param fileIds IDs of the files to delete.
+     */
+    async deleteFiles(fileIds: string[]): Promise<void> {
+        if (fileIds.length === 0) return;
+
+        return this.serialize(async () => {
+            try {
+                let deleted = 0;
+                for (const chunk of chunkArray(fileIds, 500)) {
+                    const placeholders = chunk.map(() => '?').join(',');
+                    const result = await this.db.run(
+                        `DELETE FROM files WHERE id IN (${placeholders});`,
+                        chunk
+                    );
+                    deleted += result.changes ?? 0;
+                }
+                this.logger.info(`Deleted ${deleted} file(s) from the database.`);
+            } catch (err) {
+                this.logger.error('Error deleting files:', err);
+                throw new Error(`Failed to delete files: ${(err as Error).message}`);
+            }
+        });
+    }
+
+    /**
+     * Inserts or updates folders of the indexed tree.
+     * @param folders Array of GoogleFolder objects to store.
+     * @param rootId The ID of the root folder the folders belong to.
+     * @param replace Whether to drop every previously stored folder of that root
+     * first, except those created while the root is scanned.
+     */
+    async saveFolders(
+        folders: GoogleFolder[],
+        rootId: string,
+        replace = false
+    ): Promise<void> {
+        const scan = this.activeScans.get(rootId);
+
+        return this.serialize(async () => {
+            try {
+                await this.db.run('BEGIN TRANSACTION;');
+                if (replace) {
+                    await this.db.run(
+                        `DELETE FROM folders
+                         WHERE rootId = ? AND id NOT IN (SELECT value FROM json_each(?));`,
+                        [rootId, JSON.stringify(Array.from(scan?.folderIds ?? []))]
+                    );
+                } else {
+                    folders.forEach(folder => scan?.folderIds.add(folder.id));
+                }
+                for (const folder of folders) {
+                    await this.db.run(
+                        `INSERT INTO folders (id, name, parents, rootId) VALUES (?, ?, ?, ?)
+                         ON CONFLICT(id) DO UPDATE SET
+                            name = excluded.name,
+                            parents = excluded.parents,
+                            rootId = excluded.rootId;`,
+                        [folder.id, folder.name, JSON.stringify(folder.parents), rootId]
+                    );
+                }
+                await this.updateFolderPaths(rootId);
+                await this.db.run('COMMIT;');
+            } catch (err) {
+                await this.db.run('ROLLBACK;');
+                this.logger.error('Error saving folders:', err);
+                throw new Error(`Failed to save folders: ${(err as Error).message}`);
+            }
+        });
+    }
+
+    /**
+     * Retrieves the IDs of all folders in the indexed tree.
+     * @returns A Set of folder IDs.
+     */
+    async getFolderIds(): Promise<Set<string>> {
         try {
-            await this.db.run('BEGIN TRANSACTION;');
-            for (const file of files) {
-                const parentsStr = file.parents ? JSON.stringify(file.parents) : null;
-                await this.insertOrUpdateStmt.run(
-                    file.id,
-                    file.name,
-                    parentsStr,
-                    file.webViewLink,
-                    file.id
+            const rows: {id: string}[] = await this.db.all(`SELECT id FROM folders;`);
+            return new Set(rows.map(row => row.id));
+        } catch (err) {
+            this.logger.error('Error fetching folder IDs:', err);
+            throw new Error('Failed to fetch folder IDs.');
+        }
+    }
+
+    /**
+     * Maps every folder of the indexed tree to the root folder it belongs to.
+     * @returns A Map of folder ID to root folder ID.
+     */
+    async getFolderRootIds(): Promise<Map<string, string>> {
+        try {
+            const rows: {id: string; rootId: string}[] = await this.db.all(
+                `SELECT id, rootId FROM folders WHERE rootId IS NOT NULL;`
+            );
+            return new Map(rows.map(row => [row.id, row.rootId]));
+        } catch (err) {
+            this.logger.error('Error fetching folder roots:', err);
+            throw new Error(`Failed to fetch folder roots: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Retrieves the root folders indexed in the database.
+     * @returns An array of RootFolder objects, in the order they were added.
+     */
+    async getRoots(): Promise<RootFolder[]> {
+        try {
+            return await this.db.all(
+                `SELECT id, name, addedAt FROM roots ORDER BY addedAt, id;`
+            );
+        } catch (err) {
+            this.logger.error('Error fetching root folders:', err);
+            throw new Error(`Failed to fetch root folders: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Brings the indexed roots in line with the configured ones. Rows indexed before
+     * several roots were supported are assigned to the configured root they were
+     * listed under, or to the only configured root. Roots that are no longer
+     * configured are dropped with their folders and with their files that were not
+     * downloaded; downloaded ones stay tracked until the cache evicts or purges
+     * them. Roots that were added are indexed by the next refresh.
+     */
+    async syncRoots(): Promise<void> {
+        return this.serialize(async () => {
+            try {
+                await this.db.run('BEGIN TRANSACTION;');
+
+                const legacyRoot =
+                    (await this.db.get<{id: string; name: string | null}>(
+                        `SELECT id, name FROM folders
+                         WHERE rootId IS NULL AND id IN (SELECT value FROM json_each(?));`,
+                        [JSON.stringify(this.rootIds)]
+                    )) ??
+                    (this.rootIds.length === 1
+                        ? {id: this.rootIds[0], name: null}
+                        : null);
+                const unassigned = await this.db.get<{count: number}>(
+                    `SELECT (SELECT COUNT(*) FROM files WHERE rootId IS NULL)
+                        + (SELECT COUNT(*) FROM folders WHERE rootId IS NULL) AS count;`
+                );
+                if (legacyRoot && unassigned?.count) {
+                    this.logger.info(
+                        `Assigning previously indexed rows to ${legacyRoot.id}.`
+                    );
+                    await this.db.run(
+                        `UPDATE files SET rootId = ? WHERE rootId IS NULL;`,
+                        [legacyRoot.id]
+                    );
+                    await this.db.run(
+                        `UPDATE folders SET rootId = ? WHERE rootId IS NULL;`,
+                        [legacyRoot.id]
+                    );
+                    await this.saveRoot(legacyRoot.id, legacyRoot.name);
+                } else if (unassigned?.count) {
+                    this.logger.warn(
+                        `${unassigned.count} previously indexed row(s) belong to no configured root; they are kept until a refresh lists them.`
+                    );
+                }
+
+                const configuredRoots = JSON.stringify(this.rootIds);
+                const removed = await this.db.run(
+                    `DELETE FROM files
+                     WHERE localPath IS NULL
+                        AND rootId NOT IN (SELECT value FROM json_each(?));`,
+                    [configuredRoots]
+                );
+                await this.db.run(
+                    `DELETE FROM folders WHERE rootId NOT IN (SELECT value FROM json_each(?));`,
+                    [configuredRoots]
+                );
+                await this.db.run(
+                    `DELETE FROM roots WHERE id NOT IN (SELECT value FROM json_each(?));`,
+                    [configuredRoots]
+                );
+
+                await this.db.run('COMMIT;');
+
+                // Folders saved before paths, or their normalized form, were stored
+                // get them here.
+                const unpathedRoots: {rootId: string}[] = await this.db.all(
+                    `SELECT DISTINCT rootId FROM folders WHERE searchPath IS NULL;`
+                );
+                for (const {rootId} of unpathedRoots) {
+                    await this.updateFolderPaths(rootId);
+                }
+
+                if (removed.changes) {
+                    this.logger.info(
+                        `Dropped ${removed.changes} file(s) of root folders that are no longer configured.`
+                    );
+                }
+            } catch (err) {
+                await this.db.run('ROLLBACK;');
+                this.logger.error('Error synchronizing root folders:', err);
+                throw new Error(
+                    `Failed to synchronize root folders: ${(err as Error).message}`
                 );
             }
-            await this.db.run('COMMIT;');
-            this.logger.info('Database updated successfully.');
+        });
+    }
+
+    /**
+     * Records a root folder as indexed, keeping the time it was first added.
+     * @param rootId The ID of the root folder.
+     * @param name The name of the root folder.
+     */
+    private async saveRoot(rootId: string, name: string | null): Promise<void> {
+        await this.db.run(
+            `INSERT INTO roots (id, name, addedAt) VALUES (?, ?, ?)
+             ON CONFLICT(id) DO UPDATE SET name = COALESCE(excluded.name, roots.name);`,
+            [rootId, name, new Date().toISOString()]
+        );
+    }
+
+    /**
+     * Retrieves all folders of the indexed tree.
+     * @returns An array of GoogleFolder objects.
+     */
+    async getFolders(): Promise<GoogleFolder[]> {
+        try {
+            const rows: {id: string; name: string; parents: string | null}[] =
+                await this.db.all(`SELECT id, name, parents FROM folders;`);
+            return rows.map(row => ({
+                ...row,
+                parents: row.parents ? JSON.parse(row.parents) : [],
+            }));
         } catch (err) {
-            await this.db.run('ROLLBACK;');
-            this.logger.error('Error during database update:', err);
-            throw new Error(`Failed to update database: ${(err as Error).message}`);
+            this.logger.error('Error fetching folders:', err);
+            throw new Error(`Failed to fetch folders: ${(err as Error).message}`);
         }
     }
 
     /**
-     * Deletes files from the database that are no longer present in Google Drive.
-     * Executes the deletion in a single statement using NOT IN with formatted placeholders.
-     * @param currentFileIds Set of currently fetched file IDs.
+     * Recomputes the stored paths of the folders of one root from their names, so
+     * that renamed and moved folders are reflected in the paths below them.
+     * A folder with several parents in the tree takes the path of the first one.
+     * @param rootId The ID of the root folder.
      */
-    async deleteRemovedFiles(currentFileIds: Set<string>): Promise<void> {
-        if (currentFileIds.size === 0) {
-            this.logger.warn('No current file IDs provided for deletion.');
-            return;
+    private async updateFolderPaths(rootId: string): Promise<void> {
+        const rows: (FolderRow & {searchPath: string | null})[] = await this.db.all(
+            `SELECT id, name, parents, path, searchPath FROM folders WHERE rootId = ?;`,
+            [rootId]
+        );
+        const folders = new Map(rows.map(row => [row.id, row]));
+
+        const children = new Map<string, typeof rows>();
+        for (const row of rows) {
+            const parentId = (row.parents ? JSON.parse(row.parents) : []).find(
+                (id: string) => folders.has(id)
+            );
+            if (parentId && row.id !== rootId) {
+                children.set(parentId, [...(children.get(parentId) ?? []), row]);
+            }
         }
 
-        const placeholders = Array.from(currentFileIds)
-            .map(() => '?')
-            .join(',');
-        const deleteStmt = `
-            DELETE FROM files
-            WHERE id NOT IN (${placeholders});
-        `;
+        const paths = new Map<string, string>();
+        const root = folders.get(rootId);
+        if (root) {
+            paths.set(rootId, root.name);
+        }
+        const queue = root ? [rootId] : [];
+        for (let i = 0; i < queue.length; i++) {
+            for (const child of children.get(queue[i]) ?? []) {
+                if (!paths.has(child.id)) {
+                    paths.set(child.id, `${paths.get(queue[i])}/${child.name}`);
+                    queue.push(child.id);
+                }
+            }
+        }
+
+        for (const row of rows) {
+            const path = paths.get(row.id) ?? null;
+            const searchPath = path === null ? null : normalizeForSearch(path);
+            if (path !== row.path || searchPath !== row.searchPath) {
+                await this.db.run(
+                    `UPDATE folders SET path = ?, searchPath = ? WHERE id = ?;`,
+                    [path, searchPath, row.id]
+                );
+            }
+        }
+    }
 
+    /**
+     * Retrieves an indexed folder.
+     * @param folderId The ID of the folder.
+     * @returns The folder, or null if it is not in the indexed tree.
+     */
+    async getFolder(folderId: string): Promise<DatabaseFolder | null> {
         try {
-            const result = await this.db.run(deleteStmt, Array.from(currentFileIds));
-            this.logger.info(
-                `Deleted ${result.changes} removed files from the database.`
+            const row = await this.db.get<FolderRow>(
+                `SELECT id, name, parents, rootId, path FROM folders WHERE id = ?;`,
+                [folderId]
             );
+            return row ? this.toDatabaseFolder(row) : null;
         } catch (err) {
-            this.logger.error('Error deleting removed files:', err);
-            throw new Error(`Failed to delete removed files: ${(err as Error).message}`);
+            this.logger.error('Error retrieving folder:', err);
+            throw new Error(`Failed to retrieve folder: ${(err as Error).message}`);
         }
     }
 
     /**
-     * Refreshes the database by fetching the latest files from Google Drive.
-     * Optimized to reduce redundant operations and log meaningful information.
-     * @returns RefreshResult containing total and new file counts.
+     * Lists the folders and files directly inside a folder, by name.
+     * @param folderId The ID of the folder.
+     * @returns The subfolders and files of the folder.
      */
-    async refresh(): Promise<RefreshResult> {
+    async getChildren(folderId: string): Promise<FolderChildren> {
         try {
-            this.logger.info('Starting database refresh...');
-            const {files} = await this.googleDriveService.fetchAllFiles([this.folderId]);
-
-            const existingIds = await this.getExistingFileIds();
-            const fetchedIds = new Set(files.map(file => file.id));
-            const newIds = new Set(
-                Array.from(fetchedIds).filter(id => !existingIds.has(id))
+            const folderRows: FolderRow[] = await this.db.all(
+                `SELECT id, name, parents, rootId, path FROM folders
+                 WHERE EXISTS (
+                    SELECT 1 FROM json_each(folders.parents) WHERE json_each.value = ?
+                 )
+                 ORDER BY name;`,
+                [folderId]
+            );
+            const fileRows: FileRow[] = await this.db.all(
+                `SELECT files.*, ${FILE_PATH_COLUMN} FROM files
+                 WHERE EXISTS (
+                    SELECT 1 FROM json_each(files.parents) WHERE json_each.value = ?
+                 )
+                 ORDER BY name;`,
+                [folderId]
             );
 
-            await this.updateDatabase(files);
-            await this.deleteRemovedFiles(fetchedIds);
+            return {
+                folders: folderRows.map(row => this.toDatabaseFolder(row)),
+                files: fileRows.map(row => this.toDatabaseFile(row)),
+            };
+        } catch (err) {
+            this.logger.error('Error listing folder children:', err);
+            throw new Error(`Failed to list folder children: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Lists the folders from the root down to the folder holding a file.
+     * @param fileLink The webViewLink of the file.
+     * @returns The folders, root first, or null if the file is not in the database.
+     */
+    async getBreadcrumb(fileLink: string): Promise<DatabaseFolder[] | null> {
+        const file = await this.getFile(fileLink);
+        if (!file) return null;
+
+        const breadcrumb: DatabaseFolder[] = [];
+        let parentIds = file.parents ?? [];
+        while (parentIds.length > 0) {
+            let folder: DatabaseFolder | null = null;
+            for (const parentId of parentIds) {
+                folder = await this.getFolder(parentId);
+                if (folder) break;
+            }
+            // The walk stops above the root, and on the rare cycle in Drive data.
+            if (!folder || breadcrumb.some(entry => entry.id === folder.id)) break;
+
+            breadcrumb.unshift(folder);
+            parentIds = folder.id === file.rootId ? [] : folder.parents;
+        }
+        return breadcrumb;
+    }
 
-            const totalFiles = fetchedIds.size;
-            const newFiles = newIds.size;
+    /**
+     * Collects a folder and every folder below it.
+     * @param folderId The ID of the top folder.
+     * @returns The IDs of the folders in the subtree.
+     */
+    private async getSubtreeFolderIds(folderId: string): Promise<string[]> {
+        const folder = await this.getFolder(folderId);
+        if (!folder) {
+            throw new NotFoundError('folder', folderId);
+        }
 
-            this.logger.info(
-                `Database refreshed. Total files: ${totalFiles}, New files: ${newFiles}.`
+        const rows: {id: string; parents: string | null}[] = await this.db.all(
+            `SELECT id, parents FROM folders WHERE rootId = ?;`,
+            [folder.rootId]
+        );
+        const children = new Map<string, string[]>();
+        for (const row of rows) {
+            for (const parentId of row.parents ? JSON.parse(row.parents) : []) {
+                children.set(parentId, [...(children.get(parentId) ?? []), row.id]);
+            }
+        }
+
+        const subtree = new Set([folderId]);
+        for (const id of subtree) {
+            for (const childId of children.get(id) ?? []) {
+                subtree.add(childId);
+            }
+        }
+        return Array.from(subtree);
+    }
+
+    /**
+     * Retrieves the files that have at least one parent among the given folders.
+     * The folder IDs are passed as a single JSON array so that large trees do not
+     * hit the SQLite parameter limit.
+     * @param folderIds The IDs of the parent folders.
+     * @returns An array of GoogleFile objects.
+     */
+    async getFilesInFolders(folderIds: string[]): Promise<GoogleFile[]> {
+        try {
+            const rows: FileRow[] = await this.db.all(
+                `SELECT * FROM files
+                 WHERE EXISTS (
+                    SELECT 1 FROM json_each(files.parents)
+                    WHERE json_each.value IN (SELECT value FROM json_each(?))
+                 )
+                 ORDER BY name;`,
+                [JSON.stringify(folderIds)]
             );
+            return rows.map(row => ({
+                id: row.id,
+                name: row.name,
+                parents: row.parents ? JSON.parse(row.parents) : [],
+                webViewLink: row.webViewLink,
+                mimeType: row.mimeType ?? '',
+                size: row.size,
+                modifiedTime: row.modifiedTime,
+                createdTime: row.createdTime,
+                md5Checksum: row.md5Checksum,
+                fileExtension: row.fileExtension,
+                version: row.version,
+                owners: row.owners ? JSON.parse(row.owners) : [],
+            }));
+        } catch (err) {
+            this.logger.error('Error fetching files in folders:', err);
+            throw new Error(
+                `Failed to fetch files in folders: ${(err as Error).message}`
+            );
+        }
+    }
 
-            return {totalFiles, newFiles};
+    /**
+     * Reads a value from the metadata table.
+     * @param key The metadata key.
+     * @returns The stored value, or null if it is not set.
+     */
+    private async getMetadata(key: string): Promise<string | null> {
+        const row = await this.db.get<{value: string | null}>(
+            `SELECT value FROM metadata WHERE key = ?;`,
+            [key]
+        );
+        return row?.value ?? null;
+    }
+
+    /**
+     * Writes a value to the metadata table.
+     * @param key The metadata key.
+     * @param value The value to store.
+     */
+    private async setMetadata(key: string, value: string): Promise<void> {
+        await this.serialize(() =>
+            this.db.run(
+                `INSERT INTO metadata (key, value) VALUES (?, ?)
+                 ON CONFLICT(key) DO UPDATE SET value = excluded.value;`,
+                [key, value]
+            )
+        );
+    }
+
+    /**
+     * Refreshes the database with the latest state of the root folders in Google Drive.
+     * Applies only the changes recorded since the last refresh when a page token is
+     * saved, and falls back to a full scan when it is missing or no longer valid.
+     * Root folders added since the last refresh are scanned on their own, without
+     * rescanning the others.
+     * @returns RefreshResult containing total and new file counts and the mode used.
+     */
+    async refresh(): Promise<RefreshResult> {
+        try {
+            this.logger.info('Starting database refresh...');
+
+            const pageToken = await this.getMetadata(START_PAGE_TOKEN_KEY);
+            const indexedRootIds = new Set((await this.getRoots()).map(root => root.id));
+            // Changing the depth limit adds or drops whole levels of the tree.
+            const sameDepth =
+                ((await this.getMetadata(MAX_DEPTH_KEY)) ?? '') === this.getMaxDepthKey();
+
+            if (pageToken && indexedRootIds.size > 0 && sameDepth) {
+                const result = await this.refreshIncrementally(pageToken, indexedRootIds);
+                if (result) {
+                    for (const rootId of this.rootIds) {
+                        if (!indexedRootIds.has(rootId)) {
+                            result.newFiles += await this.scanRoot(rootId);
+                            result.scannedRoots.push(rootId);
+                        }
+                    }
+                    result.totalFiles = await this.countFiles();
+                    return result;
+                }
+                this.logger.info(
+                    'Incremental refresh not possible, running a full scan.'
+                );
+            }
+
+            return await this.refreshFully();
         } catch (error: unknown) {
             this.logger.error('Error refreshing the database:', error);
             throw new Error('Failed to refresh the database.');
         }
     }
 
+    /**
+     * Rebuilds the database by listing every file under each root folder.
+     * @returns RefreshResult for the full scan.
+     */
+    private async refreshFully(): Promise<RefreshResult> {
+        // The token is taken before listing so changes made during the scan are
+        // replayed by the next incremental refresh.
+        const startPageToken = await this.googleDriveService.getStartPageToken();
+
+        let newFiles = 0;
+        for (const rootId of this.rootIds) {
+            newFiles += await this.scanRoot(rootId);
+        }
+        await this.setMetadata(START_PAGE_TOKEN_KEY, startPageToken);
+        await this.setMetadata(MAX_DEPTH_KEY, this.getMaxDepthKey());
+
+        const totalFiles = await this.countFiles();
+
+        this.logger.info(
+            `Database refreshed. Total files: ${totalFiles}, New files: ${newFiles}.`
+        );
+
+        return {totalFiles, newFiles, mode: 'full', scannedRoots: [...this.rootIds]};
+    }
+
+    /**
+     * Lists every file under one root folder and replaces what the database holds
+     * for that root. Other roots are left untouched. Files are written page by
+     * page as they are listed and marked with a new refresh generation; files of
+     * the root left with an older generation were not seen and are swept. Files
+     * and folders added to the root by this process while it is scanned are kept.
+     * @param rootId The ID of the root folder.
+     * @returns The number of files that were not in the database before.
+     */
+    private async scanRoot(rootId: string): Promise<number> {
+        const generation = Number(await this.getMetadata(REFRESH_GENERATION_KEY)) + 1;
+        await this.setMetadata(REFRESH_GENERATION_KEY, String(generation));
+
+        this.activeScans.set(rootId, {generation, folderIds: new Set()});
+        try {
+            return await this.scanRootGeneration(rootId, generation);
+        } finally {
+            this.activeScans.delete(rootId);
+        }
+    }
+
+    /**
+     * Runs the scan of scanRoot once its generation is set.
+     * @param rootId The ID of the root folder.
+     * @param generation The generation the listed files are marked with.
+     * @returns The number of files that were not in the database before.
+     */
+    private async scanRootGeneration(
+        rootId: string,
+        generation: number
+    ): Promise<number> {
+        const tree = await this.googleDriveService.fetchFolderTree(
+            rootId,
+            this.traversal
+        );
+        const folderIds = tree.folders.map(folder => folder.id);
+
+        // A file has a single root, so a root inside another would be fought over.
+        const treeIds = new Set(folderIds);
+        const nestedRootId = this.rootIds.find(id => id !== rootId && treeIds.has(id));
+        if (nestedRootId) {
+            throw new Error(
+                `Root folder ${nestedRootId} is inside root folder ${rootId}; configure only one of them.`
+            );
+        }
+
+        // Pages arrive from parallel listings but share one connection, so their
+        // transactions are chained.
+        let newFiles = 0;
+        let writes = Promise.resolve();
+        const listedFiles = await this.googleDriveService.streamFilesInFolders(
+            folderIds,
+            tree.driveId,
+            files => {
+                writes = writes.then(async () => {
+                    const ids = files.map(file => file.id);
+                    newFiles += ids.length - (await this.countExistingFiles(ids));
+                    await this.updateDatabase(files, rootId, generation);
+                });
+                return writes;
+            },
+            this.traversal
+        );
+
+        await this.sweepRemovedFiles(rootId, generation);
+        await this.saveFolders(tree.folders, rootId, true);
+        await this.serialize(() => this.saveRoot(rootId, tree.folders[0].name || null));
+
+        this.logger.info(`Scanned root folder ${rootId}: ${listedFiles} file(s).`);
+
+        return newFiles;
+    }
+
+    /**
+     * Applies the changes recorded in Google Drive since the given page token to the
+     * indexed root folders.
+     * @param pageToken The token saved after the previous refresh.
+     * @param indexedRootIds The IDs of the root folders already in the database.
+     * @returns RefreshResult for the incremental refresh, or null if a full scan is needed.
+     */
+    private async refreshIncrementally(
+        pageToken: string,
+        indexedRootIds: Set<string>
+    ): Promise<RefreshResult | null> {
+        const changeSet = await this.googleDriveService.listChanges(pageToken);
+        if (!changeSet) {
+            return null;
+        }
+
+        const folderRootIds = await this.getFolderRootIds();
+        if (Array.from(indexedRootIds).some(rootId => !folderRootIds.has(rootId))) {
+            return null;
+        }
+        const folderDepths =
+            this.traversal.maxDepth === undefined
+                ? null
+                : await this.getFolderDepths(indexedRootIds);
+
+        // Only the latest state of each item matters.
+        const latestChanges = new Map(
+            changeSet.changes.map(change => [change.fileId, change])
+        );
+
+        const updatedFiles = new Map<string, GoogleFile[]>();
+        const updatedFolders = new Map<string, GoogleFolder[]>();
+        const removedIds: string[] = [];
+
+        for (const change of latestChanges.values()) {
+            const isGone = change.removed || change.trashed || !change.file;
+            const parentId = isGone
+                ? undefined
+                : change.file!.parents.find(id => folderRootIds.has(id));
+            const rootId = parentId ? folderRootIds.get(parentId)! : undefined;
+
+            if (change.isFolder) {
+                const trackedRootId = folderRootIds.get(change.fileId);
+                if (!trackedRootId && !rootId) continue;
+                // Folders below the depth limit are not indexed.
+                if (
+                    !trackedRootId &&
+                    folderDepths &&
+                    folderDepths.get(parentId!)! >= this.traversal.maxDepth!
+                ) {
+                    continue;
+                }
+
+                const isRoot = indexedRootIds.has(change.fileId);
+                // Under a depth limit, a folder moved to another level brings
+                // subfolders into or out of the limit.
+                const changedLevel =
+                    folderDepths !== null &&
+                    !isRoot &&
+                    !isGone &&
+                    folderDepths.get(parentId!) !== folderDepths.get(change.fileId)! - 1;
+                if (
+                    !trackedRootId ||
+                    isGone ||
+                    changedLevel ||
+                    (!isRoot && rootId !== trackedRootId)
+                ) {
+                    // Folders entering or leaving a root carry files that do not
+                    // show up in the change list.
+                    this.logger.info(`Folder ${change.fileId} entered or left the tree.`);
+                    return null;
+                }
+
+                updatedFolders.set(trackedRootId, [
+                    ...(updatedFolders.get(trackedRootId) ?? []),
+                    {
+                        id: change.fileId,
+                        name: change.file!.name,
+                        parents: change.file!.parents,
+                    },
+                ]);
+            } else if (rootId) {
+                updatedFiles.set(rootId, [
+                    ...(updatedFiles.get(rootId) ?? []),
+                    change.file!,
+                ]);
+            } else {
+                removedIds.push(change.fileId);
+            }
+        }
+
+        let newFiles = 0;
+        for (const [rootId, files] of updatedFiles) {
+            newFiles +=
+                files.length -
+                (await this.countExistingFiles(files.map(file => file.id)));
+            await this.updateDatabase(files, rootId);
+        }
+        await this.deleteFiles(removedIds);
+        for (const [rootId, folders] of updatedFolders) {
+            await this.saveFolders(folders, rootId);
+        }
+        await this.setMetadata(START_PAGE_TOKEN_KEY, changeSet.newStartPageToken);
+
+        const totalFiles = await this.countFiles();
+
+        this.logger.info(
+            `Database refreshed incrementally. Applied ${latestChanges.size} change(s). Total files: ${totalFiles}, New files: ${newFiles}.`
+        );
+
+        return {totalFiles, newFiles, mode: 'incremental', scannedRoots: []};
+    }
+
+    /**
+     * Computes how deep each indexed folder is below its root.
+     * @param rootIds The IDs of the root folders, which are at depth 0.
+     * @returns A Map of folder IDs to depths.
+     */
+    private async getFolderDepths(rootIds: Set<string>): Promise<Map<string, number>> {
+        const children = new Map<string, string[]>();
+        for (const folder of await this.getFolders()) {
+            for (const parentId of folder.parents) {
+                children.set(parentId, [...(children.get(parentId) ?? []), folder.id]);
+            }
+        }
+
+        const depths = new Map(Array.from(rootIds, id => [id, 0]));
+        const queue = Array.from(rootIds);
+        for (let i = 0; i < queue.length; i++) {
+            for (const childId of children.get(queue[i]) ?? []) {
+                if (!depths.has(childId)) {
+                    depths.set(childId, depths.get(queue[i])! + 1);
+                    queue.push(childId);
+                }
+            }
+        }
+        return depths;
+    }
+
+    /**
+     * Returns the configured depth limit as it is stored in the metadata table.
+     * @returns The depth limit, or an empty string if there is none.
+     */
+    private getMaxDepthKey(): string {
+        return String(this.traversal.maxDepth ?? '');
+    }
+
+    /**
+     * Counts the files in the database.
+     * @returns The number of files.
+     */
+    private async countFiles(): Promise<number> {
+        const row = await this.db.get<{count: number}>(
+            `SELECT COUNT(*) AS count FROM files;`
+        );
+        return row?.count ?? 0;
+    }
+
+    /**
+     * Retrieves the files of the given types whose content has not been indexed yet.
+     * Content is dropped when a file changes in Drive, so changed files are
+     * returned again. Files whose extraction failed are retried a few times.
+     * @param mimeTypes The mime types the content indexer can extract text from.
+     * @returns An array of files waiting for content extraction.
+     */
+    async getFilesWithoutContent(mimeTypes: string[]): Promise<PendingContentFile[]> {
+        const placeholders = mimeTypes.map(() => '?').join(',');
+
+        try {
+            return await this.db.all(
+                `SELECT files.id, files.name, files.mimeType FROM files
+                 LEFT JOIN file_contents ON file_contents.id = files.id
+                 LEFT JOIN content_failures ON content_failures.id = files.id
+                 WHERE file_contents.id IS NULL
+                    AND COALESCE(content_failures.attempts, 0) < ?
+                    AND files.mimeType IN (${placeholders});`,
+                [MAX_CONTENT_ATTEMPTS, ...mimeTypes]
+            );
+        } catch (err) {
+            this.logger.error('Error fetching files without content:', err);
+            throw new Error(
+                `Failed to fetch files without content: ${(err as Error).message}`
+            );
+        }
+    }
+
+    /**
+     * Stores the text extracted from a file, replacing any previous extraction.
+     * @param fileId The ID of the file.
+     * @param content The extracted text.
+     */
+    async saveFileContent(fileId: string, content: string): Promise<void> {
+        return this.serialize(async () => {
+            try {
+                await this.db.run(
+                    `INSERT INTO file_contents (id, content, extractedAt) VALUES (?, ?, ?)
+                     ON CONFLICT(id) DO UPDATE SET
+                        content = excluded.content,
+                        extractedAt = excluded.extractedAt;`,
+                    [fileId, content, new Date().toISOString()]
+                );
+                await this.db.run(`DELETE FROM content_failures WHERE id = ?;`, [fileId]);
+            } catch (err) {
+                this.logger.error('Error saving file content:', err);
+                throw new Error(`Failed to save file content: ${(err as Error).message}`);
+            }
+        });
+    }
+
+    /**
+     * Records that the text of a file could not be extracted, so that it is
+     * retried on a later refresh.
+     * @param fileId The ID of the file.
+     */
+    async recordContentFailure(fileId: string): Promise<void> {
+        return this.serialize(async () => {
+            try {
+                await this.db.run(
+                    `INSERT INTO content_failures (id, attempts, failedAt) VALUES (?, 1, ?)
+                     ON CONFLICT(id) DO UPDATE SET
+                        attempts = content_failures.attempts + 1,
+                        failedAt = excluded.failedAt;`,
+                    [fileId, new Date().toISOString()]
+                );
+            } catch (err) {
+                this.logger.error('Error recording content failure:', err);
+                throw new Error(
+                    `Failed to record content failure: ${(err as Error).message}`
+                );
+            }
+        });
+    }
+
     /**
      * Searches for files in the database based on a query string.
-     * Utilizes a prepared statement for efficiency.
+     * Words must prefix a word of the file name or of the indexed file content,
+     * "quoted phrases" must appear as written, and field filters such as ext:pdf,
+     * in:"Year 2", modified>2025-01-01 or size<10MB narrow the results. Terms can
+     * be negated with a minus sign and joined with OR. Content matches carry a
+     * snippet around the matched words. Case and diacritics are ignored, and when
+     * few files match, words of the query are also matched against similarly
+     * spelled words of file names. Those files follow the exact matches and are
+     * marked as fuzzy.
+     *
+     * Results come one page at a time. Pages after the first start after the last
+     * file of the previous page in the sort order, rather than at a position, so
+     * files added or removed by a refresh in between do not shift them. Relevance
+     * scores and fuzzy matches depend on every indexed file, so cursors of pages
+     * ordered by relevance or holding fuzzy matches are rejected once a refresh
+     * changed the indexed names or contents.
      * @param query The search query.
-     * @returns An array of DatabaseFile objects matching the query.
+     * @param options Restricts the results to one root folder or subtree, applies
+     * structured filters on top of the query, and picks the page and sort order.
+     * @returns One page of matching files, their total number and the cursor of
+     * the next page.
+     * @throws QueryParseError when the query is not valid.
+     * @throws SearchOptionsError when the filters, paging or sort options are not
+     * valid.
      */
-    async search(query: string): Promise<DatabaseFile[]> {
-        const escapedQuery = escapeSingleQuotes(query);
-        const queryString = `%${escapedQuery}%`;
-
+    async search(query: string, options: SearchOptions = {}): Promise<SearchPage> {
         try {
-            const rows: DatabaseFile[] = await this.searchStmt.all([queryString]);
+            const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+            if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+                throw new SearchOptionsError(
+                    `limit must be an integer from 1 to ${MAX_PAGE_SIZE}.`
+                );
+            }
+            const offset = options.offset ?? 0;
+            if (!Number.isInteger(offset) || offset < 0) {
+                throw new SearchOptionsError('offset must be a non-negative integer.');
+            }
+            if (options.cursor && options.offset !== undefined) {
+                throw new SearchOptionsError(
+                    'Pass either a cursor or an offset, not both.'
+                );
+            }
 
-            return rows.map(file => ({
-                ...file,
-                parents: file.parents ? JSON.parse(file.parents) : null,
-            }));
+            if (options.orderBy && !SEARCH_ORDERS.includes(options.orderBy)) {
+                throw new SearchOptionsError(
+                    `orderBy must be one of ${SEARCH_ORDERS.join(', ')}.`
+                );
+            }
+            if (options.direction && !['asc', 'desc'].includes(options.direction)) {
+                throw new SearchOptionsError('direction must be asc or desc.');
+            }
+
+            const parsed = combine(
+                'and',
+                [parseQuery(query), buildFilterQuery(options.filters ?? {})].filter(
+                    node => node !== null
+                )
+            );
+            const exact = compileQuery(parsed);
+            const orderBy = options.orderBy ?? (exact.rankMatch ? 'relevance' : 'name');
+            const direction =
+                options.direction ?? (orderBy === 'relevance' ? 'desc' : 'asc');
+            const fingerprint = fingerprintSearch([
+                query,
+                options.filters ?? null,
+                options.rootId ?? null,
+                options.folderId ?? null,
+                options.fuzzy ?? true,
+                orderBy,
+                direction,
+            ]);
+            const cursor = options.cursor
+                ? decodeCursor(options.cursor, fingerprint)
+                : null;
+            const folderIds = options.folderId
+                ? JSON.stringify(await this.getSubtreeFolderIds(options.folderId))
+                : null;
+            const scope = [options.rootId ?? null, folderIds] as const;
+
+            const indexVersion = (await this.getMetadata(SEARCH_INDEX_VERSION_KEY)) ?? '';
+            if (
+                cursor &&
+                (cursor.fuzzy || (orderBy === 'relevance' && exact.rankMatch)) &&
+                cursor.indexVersion !== indexVersion
+            ) {
+                throw new SearchOptionsError(
+                    'The search index changed since the first page, which changes relevance and fuzzy matches; start again from the first page.'
+                );
+            }
+
+            // Whether to include fuzzy matches is settled on the first page, so
+            // that a refresh in between cannot change it halfway through.
+            let fuzzyQuery: QueryNode | null = null;
+            if (cursor ? cursor.fuzzy : options.fuzzy !== false) {
+                const exactCount = cursor ? 0 : await this.countMatches(exact, ...scope);
+                if (exactCount < FUZZY_MIN_RESULTS) {
+                    fuzzyQuery = await this.expandMisspelledWords(parsed);
+                }
+            }
+
+            // Fuzzy matches are those that only match the expanded query; they sort
+            // after the exact ones.
+            const matched = fuzzyQuery ? compileQuery(fuzzyQuery) : exact;
+            const fuzzyColumn = fuzzyQuery ? `NOT COALESCE((${exact.where}), 0)` : '0';
+            const fuzzyParams = fuzzyQuery ? exact.params : [];
+            const sortColumn =
+                orderBy === 'relevance' && matched.rankMatch
+                    ? '-COALESCE(ranked.rank, 0)'
+                    : SORT_COLUMNS[orderBy === 'relevance' ? 'name' : orderBy];
+            const comparison = direction === 'asc' ? '>' : '<';
+
+            // Results are ranked by the words and phrases the query looks for,
+            // if any; filters alone leave nothing to rank by.
+            const ranking = matched.rankMatch
+                ? `WITH matches AS (
+                        SELECT files_fts.rowid AS fileRowid, bm25(files_fts) AS rank,
+                            NULL AS snippet
+                        FROM files_fts
+                        WHERE files_fts MATCH ?
+                        UNION ALL
+                        SELECT files.rowid, bm25(contents_fts),
+                            snippet(contents_fts, 0, '[', ']', '…', 12)
+                        FROM contents_fts
+                        JOIN file_contents ON file_contents.rowid = contents_fts.rowid
+                        JOIN files ON files.id = file_contents.id
+                        WHERE contents_fts MATCH ?
+                    ), ranked AS (
+                        SELECT fileRowid, MIN(rank) AS rank, MAX(snippet) AS snippet
+                        FROM matches
+                        GROUP BY fileRowid
+                    )`
+                : `WITH ranked AS (SELECT NULL AS fileRowid, NULL AS rank, NULL AS snippet)`;
+
+            const rows: (FileRow & {sortFuzzy: number; sortValue: string | number})[] =
+                await this.db.all(
+                    `${ranking}
+                    SELECT * FROM (
+                        SELECT files.*, ${FILE_PATH_COLUMN},
+                            COALESCE(-ranked.rank, 0) AS score,
+                            ranked.snippet AS snippet,
+                            ${fuzzyColumn} AS sortFuzzy,
+                            ${sortColumn} AS sortValue
+                        FROM files
+                        LEFT JOIN ranked ON ranked.fileRowid = files.rowid
+                        WHERE (? IS NULL OR files.rootId = ?)
+                            AND (? IS NULL OR EXISTS (
+                                SELECT 1 FROM json_each(files.parents)
+                                WHERE json_each.value IN (SELECT value FROM json_each(?))
+                            ))
+                            AND ${matched.where}
+                    )
+                    WHERE ? IS NULL
+                        OR sortFuzzy > ?
+                        OR (sortFuzzy = ? AND (sortValue, id) ${comparison} (?, ?))
+                    ORDER BY sortFuzzy, sortValue ${direction}, id ${direction}
+                    LIMIT ? OFFSET ?;`,
+                    [
+                        ...(matched.rankMatch
+                            ? [matched.rankMatch, matched.rankMatch]
+                            : []),
+                        ...fuzzyParams,
+                        scope[0],
+                        scope[0],
+                        scope[1],
+                        scope[1],
+                        ...matched.params,
+                        cursor ? 1 : null,
+                        ...(cursor
+                            ? [cursor.key[0], cursor.key[0], ...cursor.key.slice(1)]
+                            : [null, null, null, null]),
+                        limit + 1,
+                        offset,
+                    ]
+                );
+
+            const pageRows = rows.slice(0, limit);
+            const last = pageRows[pageRows.length - 1];
+            const nextCursor =
+                rows.length > limit
+                    ? encodeCursor({
+                          key: [last.sortFuzzy, last.sortValue, last.id],
+                          fuzzy: fuzzyQuery !== null,
+                          search: fingerprint,
+                          indexVersion,
+                      })
+                    : null;
+
+            return {
+                // The sort key is only needed for the cursor.
+                results: pageRows.map(({sortFuzzy, sortValue, ...row}) => ({
+                    ...this.toDatabaseFile(row),
+                    ...(sortFuzzy ? {fuzzy: true} : {}),
+                })),
+                total: await this.countMatches(matched, ...scope),
+                nextCursor,
+            };
         } catch (err) {
             this.logger.error('Error during search query:', err);
+            if (
+                err instanceof QueryParseError ||
+                err instanceof SearchOptionsError ||
+                err instanceof NotFoundError
+            ) {
+                throw err;
+            }
             throw new Error(`Search query failed: ${(err as Error).message}`);
         }
     }
 
+    /**
+     * Counts the files matching a compiled query.
+     * @param query The compiled query.
+     * @param rootId The root folder to search in, or null for all of them.
+     * @param folderIds The folders to search in as a JSON array, or null for all of them.
+     * @returns The number of matching files.
+     */
+    private async countMatches(
+        query: CompiledQuery,
+        rootId: string | null,
+        folderIds: string | null
+    ): Promise<number> {
+        const row = await this.db.get<{count: number}>(
+            `SELECT COUNT(*) AS count FROM files
+             WHERE (? IS NULL OR files.rootId = ?)
+                AND (? IS NULL OR EXISTS (
+                    SELECT 1 FROM json_each(files.parents)
+                    WHERE json_each.value IN (SELECT value FROM json_each(?))
+                ))
+                AND ${query.where};`,
+            [rootId, rootId, folderIds, folderIds, ...query.params]
+        );
+        return row?.count ?? 0;
+    }
+
+    /**
+     * Adds the indexed words of file names that look like misspellings of the
+     * words of a query as alternatives to them.
+     * @param node The parsed query.
+     * @returns The expanded query, or null if no word has a close match.
+     */
+    private async expandMisspelledWords(
+        node: QueryNode | null
+    ): Promise<QueryNode | null> {
+        const words = collectFuzzyWords(node);
+        if (!node || words.length === 0) {
+            return null;
+        }
+
+        const minLength = Math.min(...words.map(word => word.length)) - 2;
+        const vocabulary: VocabularyTerm[] = await this.db.all(
+            `SELECT term, doc FROM files_fts_vocab WHERE length(term) >= ?;`,
+            [minLength]
+        );
+
+        const corrections = new Map<string, string[]>();
+        for (const word of words) {
+            const terms = findCorrections(word, vocabulary);
+            if (terms.length > 0) {
+                corrections.set(word, terms);
+            }
+        }
+        return corrections.size > 0 ? expandFuzzyWords(node, corrections) : null;
+    }
+
+    /**
+     * Converts a row of the files table into a DatabaseFile, decoding JSON columns.
+     * @param row The raw row.
+     * @returns The DatabaseFile.
+     */
+    private toDatabaseFile(row: FileRow): DatabaseFile {
+        return {
+            ...row,
+            parents: row.parents ? JSON.parse(row.parents) : null,
+            owners: row.owners ? JSON.parse(row.owners) : [],
+            pinned: row.pinned === 1,
+            stale: row.stale === 1,
+        };
+    }
+
+    /**
+     * Converts a database row into a DatabaseFolder.
+     * @param row The row as stored.
+     * @returns The folder with its parents parsed.
+     */
+    private toDatabaseFolder(row: FolderRow): DatabaseFolder {
+        return {
+            id: row.id,
+            name: row.name,
+            parents: row.parents ? JSON.parse(row.parents) : [],
+            rootId: row.rootId,
+            path: row.path,
+        };
+    }
+
     /**
      * Checks if a file exists in the database based on its webViewLink.
      * Utilizes a prepared statement for efficiency.
@@ -288,26 +1510,244 @@ export class FolderDatabase {
         }
     }
 
+    /**
+     * Retrieves a file based on its webViewLink.
+     * @param fileLink The webViewLink of the file.
+     * @returns The DatabaseFile if it exists, otherwise null.
+     */
+    async getFile(fileLink: string): Promise<DatabaseFile | null> {
+        const fileId = extractFileIdFromLink(fileLink);
+        if (!fileId) return null;
+
+        try {
+            const row = await this.db.get<FileRow>(
+                `SELECT files.*, ${FILE_PATH_COLUMN} FROM files WHERE id = ?;`,
+                [fileId]
+            );
+            return row ? this.toDatabaseFile(row) : null;
+        } catch (err) {
+            this.logger.error('Error retrieving file:', err);
+            throw new Error(`Failed to retrieve file: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Checks whether another indexed file has the same name as a file, ignoring
+     * case and extension, so that their downloads need names of their own.
+     * @param fileLink The webViewLink of the file.
+     * @returns True if another file shares the name.
+     */
+    async hasNamesake(fileLink: string): Promise<boolean> {
+        const fileId = extractFileIdFromLink(fileLink);
+        if (!fileId) return false;
+
+        try {
+            const file = await this.db.get<{name: string}>(
+                `SELECT name FROM files WHERE id = ?;`,
+                [fileId]
+            );
+            if (!file) return false;
+
+            // LIKE narrows the candidates down by prefix; the stems decide.
+            const stem = getNameStem(file.name);
+            const candidates: {name: string}[] = await this.db.all(
+                `SELECT name FROM files WHERE id <> ? AND name LIKE ? ESCAPE '\\';`,
+                [fileId, `${stem.replace(/[\\%_]/g, '\\$&')}%`]
+            );
+            return candidates.some(candidate => getNameStem(candidate.name) === stem);
+        } catch (err) {
+            this.logger.error('Error checking for files with the same name:', err);
+            throw new Error(
+                `Failed to check for files with the same name: ${(err as Error).message}`
+            );
+        }
+    }
+
+    /**
+     * Retrieves the mime type of a file based on its webViewLink.
+     * @param fileLink The webViewLink of the file.
+     * @returns The mime type if it is known, otherwise null.
+     */
+    async getMimeType(fileLink: string): Promise<string | null> {
+        const fileId = extractFileIdFromLink(fileLink);
+        if (!fileId) return null;
+
+        try {
+            const result = await this.db.get<{mimeType: string | null}>(
+                `SELECT mimeType FROM files WHERE id = ?;`,
+                [fileId]
+            );
+            return result?.mimeType || null;
+        } catch (err) {
+            this.logger.error('Error retrieving mime type:', err);
+            throw new Error(`Failed to retrieve mime type: ${(err as Error).message}`);
+        }
+    }
+
     /**
      * Updates the local file path for a given file based on its webViewLink.
+     * The copy is recorded as accessed now for cache eviction, and as matching
+     * the given remote version, or the last refreshed one, for staleness checks.
      * Utilizes a prepared statement for efficiency.
      * @param fileLink The webViewLink of the file.
      * @param localPath The local path where the file is stored.
+     * @param localSize The size of the local copy in bytes, if known.
+     * @param localMtimeMs When the local copy was written, if known.
+     * @param downloadedVersion The remote version the local copy was made from.
      */
-    async updateLocalFilePath(fileLink: string, localPath: string): Promise<void> {
+    async updateLocalFilePath(
+        fileLink: string,
+        localPath: string,
+        localSize: number | null = null,
+        localMtimeMs: number | null = null,
+        downloadedVersion: DownloadedVersion | null = null
+    ): Promise<void> {
         const fileId = extractFileIdFromLink(fileLink);
         if (!fileId) {
             throw new Error('Invalid file link provided.');
         }
 
+        return this.serialize(async () => {
+            try {
+                await this.updateLocalPathStmt.run([
+                    localPath,
+                    localSize,
+                    localMtimeMs,
+                    new Date().toISOString(),
+                    downloadedVersion?.modifiedTime ?? null,
+                    downloadedVersion?.md5Checksum ?? null,
+                    downloadedVersion?.version ?? null,
+                    fileId,
+                ]);
+                this.logger.info(`Updated local file path for file ID ${fileId}.`);
+            } catch (err) {
+                this.logger.error('Error updating local file path:', err);
+                throw new Error(
+                    `Failed to update local file path: ${(err as Error).message}`
+                );
+            }
+        });
+    }
+
+    /**
+     * Records that the local copy of a file was just served.
+     * @param fileLink The webViewLink of the file.
+     */
+    async touchLocalFile(fileLink: string): Promise<void> {
+        const fileId = extractFileIdFromLink(fileLink);
+        if (!fileId) return;
+
+        return this.serialize(async () => {
+            try {
+                await this.db.run(`UPDATE files SET lastAccessedAt = ? WHERE id = ?;`, [
+                    new Date().toISOString(),
+                    fileId,
+                ]);
+            } catch (err) {
+                this.logger.error('Error recording file access:', err);
+                throw new Error(
+                    `Failed to record file access: ${(err as Error).message}`
+                );
+            }
+        });
+    }
+
+    /**
+     * Records when the local copy of a file was written, once its content was
+     * found to match the recorded checksum.
+     * @param fileLink The webViewLink of the file.
+     * @param localMtimeMs The modification time of the local copy.
+     */
+    async updateLocalMtime(fileLink: string, localMtimeMs: number): Promise<void> {
+        const fileId = extractFileIdFromLink(fileLink);
+        if (!fileId) return;
+
+        return this.serialize(async () => {
+            try {
+                await this.db.run(`UPDATE files SET localMtimeMs = ? WHERE id = ?;`, [
+                    localMtimeMs,
+                    fileId,
+                ]);
+            } catch (err) {
+                this.logger.error('Error recording local modification time:', err);
+                throw new Error(
+                    `Failed to record local modification time: ${(err as Error).message}`
+                );
+            }
+        });
+    }
+
+    /**
+     * Clears the local copy of a file after it was removed from disk.
+     * @param fileId The ID of the file.
+     */
+    async clearLocalFilePath(fileId: string): Promise<void> {
+        return this.serialize(async () => {
+            try {
+                await this.db.run(
+                    `UPDATE files SET
+                        localPath = NULL,
+                        localSize = NULL,
+                        localMtimeMs = NULL,
+                        lastAccessedAt = NULL,
+                        localModifiedTime = NULL,
+                        localMd5Checksum = NULL,
+                        localVersion = NULL,
+                        stale = 0
+                     WHERE id = ?;`,
+                    [fileId]
+                );
+            } catch (err) {
+                this.logger.error('Error clearing local file path:', err);
+                throw new Error(
+                    `Failed to clear local file path: ${(err as Error).message}`
+                );
+            }
+        });
+    }
+
+    /**
+     * Retrieves every file with a local copy, least recently used first.
+     * @returns An array of CachedFile objects.
+     */
+    async getCachedFiles(): Promise<CachedFile[]> {
         try {
-            await this.updateLocalPathStmt.run([localPath, fileId]);
-            this.logger.info(`Updated local file path for file ID ${fileId}.`);
+            const rows: (Omit<CachedFile, 'pinned'> & {pinned: number})[] =
+                await this.db.all(
+                    `SELECT id, localPath, localSize, lastAccessedAt, pinned FROM files
+                     WHERE localPath IS NOT NULL
+                     ORDER BY lastAccessedAt IS NOT NULL, lastAccessedAt;`
+                );
+            return rows.map(row => ({...row, pinned: row.pinned === 1}));
         } catch (err) {
-            this.logger.error('Error updating local file path:', err);
-            throw new Error(
-                `Failed to update local file path: ${(err as Error).message}`
-            );
+            this.logger.error('Error fetching cached files:', err);
+            throw new Error(`Failed to fetch cached files: ${(err as Error).message}`);
         }
     }
+
+    /**
+     * Pins or unpins a file so that its local copy is never evicted.
+     * @param fileLink The webViewLink of the file.
+     * @param pinned Whether the file is pinned.
+     * @returns True if the file exists in the database.
+     */
+    async setPinned(fileLink: string, pinned: boolean): Promise<boolean> {
+        const fileId = extractFileIdFromLink(fileLink);
+        if (!fileId) return false;
+
+        return this.serialize(async () => {
+            try {
+                const result = await this.db.run(
+                    `UPDATE files SET pinned = ? WHERE id = ?;`,
+                    [pinned ? 1 : 0, fileId]
+                );
+                return (result.changes ?? 0) > 0;
+            } catch (err) {
+                this.logger.error('Error updating pinned state:', err);
+                throw new Error(
+                    `Failed to update pinned state: ${(err as Error).message}`
+                );
+            }
+        });
+    }
 }
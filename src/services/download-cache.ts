@@ -0,0 +1,161 @@
+import fs from 'fs/promises';
+import {Logger} from '@/utils/logger';
+import {FolderDatabase} from '@/services/database';
+import {CacheConfig, CachedFile, CacheUsage, PurgeCacheOptions} from '@/types';
+import {getFileSize} from '@/utils';
+
+export class DownloadCache {
+    private folderDatabase: FolderDatabase;
+    private config: CacheConfig;
+    private logger: Logger;
+    // Files being read, with how many readers each has. They are never evicted.
+    private readers = new Map<string, number>();
+
+    constructor(folderDatabase: FolderDatabase, config: CacheConfig, logger: Logger) {
+        this.folderDatabase = folderDatabase;
+        this.config = config;
+        this.logger = logger;
+    }
+
+    /**
+     * Keeps a file from being evicted or purged until it is released.
+     * @param fileId The ID of the file.
+     */
+    retain(fileId: string): void {
+        this.readers.set(fileId, (this.readers.get(fileId) ?? 0) + 1);
+    }
+
+    /**
+     * Lets a retained file be evicted again once no other reader retains it.
+     * @param fileId The ID of the file.
+     */
+    release(fileId: string): void {
+        const readers = (this.readers.get(fileId) ?? 0) - 1;
+        if (readers > 0) {
+            this.readers.set(fileId, readers);
+        } else {
+            this.readers.delete(fileId);
+        }
+    }
+
+    /**
+     * Reports how much disk space the downloaded files use.
+     * @returns The cache usage and the configured limits.
+     */
+    async getUsage(): Promise<CacheUsage> {
+        const files = await this.folderDatabase.getCachedFiles();
+
+        const usage: CacheUsage = {
+            totalBytes: 0,
+            fileCount: files.length,
+            pinnedBytes: 0,
+            pinnedCount: 0,
+            maxBytes: this.config.maxBytes ?? null,
+            maxAgeMs: this.config.maxAgeMs ?? null,
+        };
+
+        for (const file of files) {
+            const size = await this.sizeOf(file);
+            usage.totalBytes += size;
+            if (file.pinned) {
+                usage.pinnedBytes += size;
+                usage.pinnedCount++;
+            }
+        }
+
+        return usage;
+    }
+
+    /**
+     * Evicts unpinned downloads older than maxAgeMs, then the least recently used
+     * ones until the cache fits in maxBytes.
+     * @param keepFileId A file that must not be evicted, such as the one just downloaded.
+     * @returns The number of evicted files.
+     */
+    async enforceLimits(keepFileId?: string): Promise<number> {
+        const {maxBytes, maxAgeMs} = this.config;
+        if (maxBytes === undefined && maxAgeMs === undefined) {
+            return 0;
+        }
+
+        const files = await this.folderDatabase.getCachedFiles();
+        const sizes = new Map<string, number>();
+        let totalBytes = 0;
+        for (const file of files) {
+            const size = await this.sizeOf(file);
+            sizes.set(file.id, size);
+            totalBytes += size;
+        }
+
+        const oldestAllowed = maxAgeMs !== undefined ? Date.now() - maxAgeMs : null;
+        let evicted = 0;
+
+        // Files are sorted least recently used first.
+        for (const file of files) {
+            if (file.pinned || file.id === keepFileId || this.readers.has(file.id)) {
+                continue;
+            }
+
+            const lastAccessed = file.lastAccessedAt
+                ? Date.parse(file.lastAccessedAt)
+                : 0;
+            const isExpired = oldestAllowed !== null && lastAccessed < oldestAllowed;
+            const isOverBudget = maxBytes !== undefined && totalBytes > maxBytes;
+            if (!isExpired && !isOverBudget) continue;
+
+            await this.evict(file);
+            totalBytes -= sizes.get(file.id)!;
+            evicted++;
+        }
+
+        if (maxBytes !== undefined && totalBytes > maxBytes) {
+            this.logger.warn(
+                `Download cache uses ${totalBytes} bytes, above the ${maxBytes} byte limit, because of pinned files.`
+            );
+        }
+
+        if (evicted > 0) {
+            this.logger.info(`Evicted ${evicted} file(s) from the download cache.`);
+        }
+        return evicted;
+    }
+
+    /**
+     * Deletes downloaded files from disk and clears them in the database. Files
+     * being read are kept.
+     * @param options Whether pinned files are deleted as well.
+     * @returns The number of deleted files.
+     */
+    async purge(options: PurgeCacheOptions = {}): Promise<number> {
+        const files = await this.folderDatabase.getCachedFiles();
+
+        let purged = 0;
+        for (const file of files) {
+            if (file.pinned && !options.includePinned) continue;
+            if (this.readers.has(file.id)) continue;
+            await this.evict(file);
+            purged++;
+        }
+
+        this.logger.info(`Purged ${purged} file(s) from the download cache.`);
+        return purged;
+    }
+
+    /**
+     * Removes a local copy from disk and clears its path in the database.
+     * @param file The cached file to remove.
+     */
+    private async evict(file: CachedFile): Promise<void> {
+        await fs.rm(file.localPath, {force: true});
+        await this.folderDatabase.clearLocalFilePath(file.id);
+    }
+
+    /**
+     * Gets the size of a local copy, reading it from disk when it was not recorded.
+     * @param file The cached file.
+     * @returns The size in bytes.
+     */
+    private async sizeOf(file: CachedFile): Promise<number> {
+        return file.localSize ?? (await getFileSize(file.localPath));
+    }
+}
@@ -0,0 +1,370 @@
+import path from 'path';
+import fs from 'fs/promises';
+import {Logger} from '@/utils/logger';
+import {GoogleDriveService} from '@/services/google-drive';
+import {FolderDatabase} from '@/services/database';
+import {NotFoundError} from '@/errors';
+import {
+    EXPORT_FORMATS,
+    resolveExportFormat,
+} from '@/services/google-drive/export-formats';
+import {buildLocalFileName} from '@/services/google-drive/file-namer';
+import {GoogleFolder, MirrorOptions, MirrorResult} from '@/types';
+import {getFileSize, sanitizeFileName} from '@/utils';
+
+// Records which Drive file every mirrored path came from, so that only files
+// written by the mirror are ever replaced or deleted.
+const MANIFEST_FILE_NAME = '.gdrivevault-mirror.json';
+
+interface ManifestEntry {
+    id: string;
+    modifiedTime: string | null;
+    size: number | null;
+}
+
+type Manifest = Record<string, ManifestEntry>;
+
+export class FolderMirror {
+    private googleDriveService: GoogleDriveService;
+    private folderDatabase: FolderDatabase;
+    private logger: Logger;
+
+    constructor(
+        googleDriveService: GoogleDriveService,
+        folderDatabase: FolderDatabase,
+        logger: Logger
+    ) {
+        this.googleDriveService = googleDriveService;
+        this.folderDatabase = folderDatabase;
+        this.logger = logger;
+    }
+
+    /**
+     * Downloads every indexed file under a folder into a local directory tree that
+     * matches the Drive folder hierarchy. Files mirrored before are skipped while
+     * they are unchanged in Drive. Google Workspace files are exported to the
+     * default format of their type; types that cannot be exported are counted as
+     * unsupported.
+     * @param folderId The ID of the Drive folder to mirror.
+     * @param destination The local directory to mirror into.
+     * @param options Whether local files deleted in Drive are removed, along with
+     * the directories they leave empty.
+     * @returns A summary of what was downloaded, skipped and deleted.
+     */
+    async mirror(
+        folderId: string,
+        destination: string,
+        options: MirrorOptions = {}
+    ): Promise<MirrorResult> {
+        const folders = await this.folderDatabase.getFolders();
+        if (!folders.some(folder => folder.id === folderId)) {
+            throw new NotFoundError('folder', folderId);
+        }
+
+        // Folders and files share one namespace per directory; the manifest's own
+        // name is reserved at the top level.
+        const usedNames = new Map([['', new Set([MANIFEST_FILE_NAME.toLowerCase()])]]);
+        const directories = this.buildDirectoryPaths(folders, folderId, usedNames);
+        const files = await this.folderDatabase.getFilesInFolders(
+            Array.from(directories.keys())
+        );
+
+        await fs.mkdir(destination, {recursive: true});
+        const previousManifest = await this.readManifest(destination);
+        const manifest: Manifest = {};
+        const result: MirrorResult = {
+            downloaded: 0,
+            skipped: 0,
+            deleted: 0,
+            unsupported: 0,
+            untracked: [],
+            failed: [],
+        };
+
+        this.logger.info(`Mirroring ${files.length} file(s) to ${destination}...`);
+
+        for (const file of files) {
+            let exportExtension: string | undefined;
+            try {
+                const exportFormat = resolveExportFormat(file.mimeType);
+                exportExtension = exportFormat
+                    ? EXPORT_FORMATS[exportFormat].extension
+                    : undefined;
+            } catch {
+                result.unsupported++;
+                continue;
+            }
+
+            const directory = directories.get(
+                file.parents.find(parent => directories.has(parent))!
+            )!;
+            const relativePath = this.claimName(
+                usedNames,
+                directory,
+                buildLocalFileName(file, 'name', exportExtension),
+                file.id
+            );
+            const filePath = path.join(destination, relativePath);
+            const entry: ManifestEntry = {
+                id: file.id,
+                modifiedTime: file.modifiedTime,
+                size: exportExtension ? null : file.size,
+            };
+
+            if (await this.isUpToDate(filePath, previousManifest[relativePath], entry)) {
+                manifest[relativePath] = entry;
+                result.skipped++;
+                continue;
+            }
+            if (!previousManifest[relativePath] && (await this.exists(filePath))) {
+                this.logger.warn(
+                    `Not mirroring "${file.name}": ${filePath} was not written by the mirror.`
+                );
+                result.untracked.push(relativePath);
+                continue;
+            }
+
+            try {
+                await this.googleDriveService.downloadFileToPath(file.id, filePath);
+                manifest[relativePath] = entry;
+                result.downloaded++;
+            } catch (err) {
+                this.logger.warn(`Could not mirror "${file.name}":`, err);
+                result.failed.push({
+                    fileId: file.id,
+                    name: file.name,
+                    error: (err as Error).message,
+                });
+                // The previous copy, if any, is still on disk and still ours.
+                if (previousManifest[relativePath]) {
+                    manifest[relativePath] = previousManifest[relativePath];
+                }
+            }
+        }
+
+        for (const [relativePath, entry] of Object.entries(previousManifest)) {
+            if (manifest[relativePath]) {
+                continue;
+            }
+            if (options.deleteRemoved) {
+                await fs.rm(path.join(destination, relativePath), {force: true});
+                await this.removeEmptyDirectories(
+                    destination,
+                    path.dirname(relativePath)
+                );
+                result.deleted++;
+            } else {
+                manifest[relativePath] = entry;
+            }
+        }
+
+        await this.writeManifest(destination, manifest);
+
+        this.logger.info(
+            `Mirror complete. Downloaded: ${result.downloaded}, Skipped: ${result.skipped}, Deleted: ${result.deleted}, Unsupported: ${result.unsupported}, Untracked: ${result.untracked.length}, Failed: ${result.failed.length}.`
+        );
+
+        return result;
+    }
+
+    /**
+     * Maps every folder under the mirrored folder to its path relative to the
+     * destination. A folder with several parents is placed under the first one
+     * reached, and siblings whose names clash get their Drive ID appended.
+     * @param folders All folders of the indexed tree.
+     * @param rootId The ID of the mirrored folder.
+     * @param usedNames The names reserved so far, by directory.
+     * @returns A Map of folder ID to relative directory path.
+     */
+    private buildDirectoryPaths(
+        folders: GoogleFolder[],
+        rootId: string,
+        usedNames: Map<string, Set<string>>
+    ): Map<string, string> {
+        const children = new Map<string, GoogleFolder[]>();
+        for (const folder of folders) {
+            for (const parent of folder.parents) {
+                children.set(parent, [...(children.get(parent) ?? []), folder]);
+            }
+        }
+
+        const directories = new Map<string, string>([[rootId, '']]);
+        const queue = [rootId];
+
+        while (queue.length > 0) {
+            const parentId = queue.shift()!;
+            const parentPath = directories.get(parentId)!;
+
+            for (const folder of children.get(parentId) ?? []) {
+                if (directories.has(folder.id)) {
+                    continue;
+                }
+                const name = sanitizeFileName(folder.name) || folder.id;
+                directories.set(
+                    folder.id,
+                    this.claimName(usedNames, parentPath, name, folder.id)
+                );
+                queue.push(folder.id);
+            }
+        }
+
+        return directories;
+    }
+
+    /**
+     * Reserves a name inside a directory, appending the Drive ID when another
+     * entry already uses it. Names are compared case-insensitively so that the
+     * mirror also works on case-insensitive file systems.
+     * @param usedNames The names reserved so far, by directory.
+     * @param directory The relative path of the directory.
+     * @param name The preferred name.
+     * @param id The Drive ID of the entry.
+     * @returns The relative path of the entry.
+     */
+    private claimName(
+        usedNames: Map<string, Set<string>>,
+        directory: string,
+        name: string,
+        id: string
+    ): string {
+        const names = usedNames.get(directory) ?? new Set<string>();
+        usedNames.set(directory, names);
+
+        let claimed = name;
+        if (names.has(claimed.toLowerCase())) {
+            const extension = path.extname(name);
+            claimed = `${name.slice(0, name.length - extension.length)} (${id})${extension}`;
+        }
+        names.add(claimed.toLowerCase());
+
+        return path.join(directory, claimed);
+    }
+
+    /**
+     * Checks whether a mirrored copy still matches the file in Drive.
+     * @param filePath The path of the local copy.
+     * @param previous What the manifest recorded for this path, if anything.
+     * @param current The current state of the file in Drive.
+     * @returns True if the copy can be kept as is.
+     */
+    private async isUpToDate(
+        filePath: string,
+        previous: ManifestEntry | undefined,
+        current: ManifestEntry
+    ): Promise<boolean> {
+        if (
+            !previous ||
+            previous.id !== current.id ||
+            previous.modifiedTime === null ||
+            previous.modifiedTime !== current.modifiedTime
+        ) {
+            return false;
+        }
+
+        if (!(await this.exists(filePath))) {
+            return false;
+        }
+
+        return current.size === null || (await getFileSize(filePath)) === current.size;
+    }
+
+    /**
+     * Removes a directory of the mirror and then its parents, up to the
+     * destination itself, for as long as they are empty.
+     * @param destination The mirror directory.
+     * @param relativeDirectory The directory to start from, relative to the destination.
+     */
+    private async removeEmptyDirectories(
+        destination: string,
+        relativeDirectory: string
+    ): Promise<void> {
+        for (
+            let directory = relativeDirectory;
+            directory !== '.' && directory !== '';
+            directory = path.dirname(directory)
+        ) {
+            try {
+                await fs.rmdir(path.join(destination, directory));
+            } catch (err) {
+                const code = (err as {code?: string}).code;
+                if (code === 'ENOENT') continue;
+                if (code !== 'ENOTEMPTY' && code !== 'EEXIST') {
+                    this.logger.warn(
+                        `Could not remove empty directory ${directory}:`,
+                        err
+                    );
+                }
+                return;
+            }
+        }
+    }
+
+    /**
+     * Checks if a file exists at the given path.
+     * @param filePath The path of the file.
+     * @returns True if the file exists.
+     */
+    private async exists(filePath: string): Promise<boolean> {
+        try {
+            await fs.access(filePath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Reads the manifest left by a previous mirror into the destination. Entries
+     * whose path leads outside the destination, or to the manifest itself, are
+     * dropped, so that a tampered manifest cannot get other files deleted.
+     * @param destination The mirror directory.
+     * @returns The manifest, empty if there is none.
+     */
+    private async readManifest(destination: string): Promise<Manifest> {
+        try {
+            const content = await fs.readFile(
+                path.join(destination, MANIFEST_FILE_NAME),
+                'utf-8'
+            );
+            const manifest: Manifest = {};
+            for (const [relativePath, entry] of Object.entries(
+                JSON.parse(content) as Manifest
+            )) {
+                const relative = path.relative(
+                    destination,
+                    path.resolve(destination, relativePath)
+                );
+                if (
+                    relative === '' ||
+                    relative === MANIFEST_FILE_NAME ||
+                    relative.split(path.sep)[0] === '..' ||
+                    path.isAbsolute(relative)
+                ) {
+                    this.logger.warn(
+                        `Ignoring mirror manifest entry outside ${destination}: ${relativePath}`
+                    );
+                    continue;
+                }
+                manifest[relativePath] = entry;
+            }
+            return manifest;
+        } catch (err) {
+            if ((err as {code?: string}).code !== 'ENOENT') {
+                this.logger.warn('Ignoring unreadable mirror manifest:', err);
+            }
+            return {};
+        }
+    }
+
+    /**
+     * Writes the manifest of the mirror directory.
+     * @param destination The mirror directory.
+     * @param manifest The mirrored files, by relative path.
+     */
+    private async writeManifest(destination: string, manifest: Manifest): Promise<void> {
+        await fs.writeFile(
+            path.join(destination, MANIFEST_FILE_NAME),
+            JSON.stringify(manifest, null, 2)
+        );
+    }
+}
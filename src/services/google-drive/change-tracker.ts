@@ -0,0 +1,108 @@
+import {drive_v3} from 'googleapis';
+import {DriveChange, DriveChangeSet} from '@/types';
+import {logger} from '@/utils/logger';
+import {FILE_FIELDS, toGoogleFile} from './file-mapper';
+import {RequestScheduler} from './request-scheduler';
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+export class ChangeTracker {
+    private drive: drive_v3.Drive;
+    private requests: RequestScheduler;
+
+    constructor(drive: drive_v3.Drive, requests: RequestScheduler) {
+        this.drive = drive;
+        this.requests = requests;
+    }
+
+    /**
+     * Retrieves the token marking the current position in the Drive change log.
+     * @returns The start page token for future change listings.
+     */
+    public async getStartPageToken(): Promise<string> {
+        try {
+            const res = await this.requests.execute('Fetching start page token', () =>
+                this.drive.changes.getStartPageToken({supportsAllDrives: true})
+            );
+            if (!res.data.startPageToken) {
+                throw new Error('Drive did not return a start page token.');
+            }
+            return res.data.startPageToken;
+        } catch (err) {
+            logger.error('Error fetching start page token:', err);
+            throw new Error(
+                `Failed to fetch start page token: ${(err as Error).message}`
+            );
+        }
+    }
+
+    /**
+     * Lists every change recorded since the given page token.
+     * @param pageToken The token saved after the previous refresh.
+     * @returns The changes and the token to use next time, or null if the token
+     * is no longer accepted by Drive.
+     */
+    public async listChanges(pageToken: string): Promise<DriveChangeSet | null> {
+        const changes: DriveChange[] = [];
+        let currentToken: string | undefined = pageToken;
+        let newStartPageToken: string | undefined;
+
+        logger.info('Fetching changes from Google Drive...');
+        try {
+            while (currentToken) {
+                const res: {data: drive_v3.Schema$ChangeList} =
+                    await this.requests.execute('Listing changes', () =>
+                        this.drive.changes.list({
+                            pageToken: currentToken,
+                            pageSize: 1000,
+                            includeRemoved: true,
+                            includeItemsFromAllDrives: true,
+                            supportsAllDrives: true,
+                            fields: `nextPageToken, newStartPageToken, changes(fileId, removed, file(${FILE_FIELDS}, trashed))`,
+                        })
+                    );
+
+                for (const change of res.data.changes || []) {
+                    if (!change.fileId) continue;
+                    changes.push(this.toDriveChange(change));
+                }
+
+                newStartPageToken = res.data.newStartPageToken || newStartPageToken;
+                currentToken = res.data.nextPageToken || undefined;
+            }
+
+            if (!newStartPageToken) {
+                throw new Error('Drive did not return a new start page token.');
+            }
+
+            logger.info(`Fetched ${changes.length} change(s).`);
+            return {changes, newStartPageToken};
+        } catch (err) {
+            const errorCode = (err as {code?: number}).code;
+            if (errorCode === 400 || errorCode === 404 || errorCode === 410) {
+                logger.warn('Saved page token is invalid or expired:', err);
+                return null;
+            }
+
+            logger.error('Error fetching changes:', err);
+            throw new Error(`Failed to fetch changes: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Normalizes a raw Drive change into a DriveChange.
+     * @param change The change returned by the Drive API.
+     * @returns The normalized change.
+     */
+    private toDriveChange(change: drive_v3.Schema$Change): DriveChange {
+        const file = change.file;
+
+        return {
+            fileId: change.fileId!,
+            removed: !!change.removed || !file,
+            trashed: !!file?.trashed,
+            isFolder: file?.mimeType === FOLDER_MIME_TYPE,
+            file: file ? toGoogleFile({...file, id: file.id || change.fileId}) : null,
+        };
+    }
+}
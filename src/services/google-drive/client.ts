@@ -6,7 +6,9 @@ export class GoogleDriveClient {
     public drive: drive_v3.Drive;
 
     constructor(authClient: OAuth2Client) {
-        this.drive = google.drive({version: 'v3', auth: authClient});
+        // Retries are left to the RequestScheduler, which also covers the errors
+        // the built-in retry skips, such as 403 rate limit responses.
+        this.drive = google.drive({version: 'v3', auth: authClient, retry: false});
         logger.info('Initialized Google Drive client.');
     }
 }
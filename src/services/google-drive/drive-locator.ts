@@ -0,0 +1,79 @@
+import {drive_v3} from 'googleapis';
+import {RequestScheduler} from './request-scheduler';
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+/**
+ * A folder and the shared drive it lives in.
+ */
+export interface FolderLocation {
+    id: string;
+    name: string;
+    isFolder: boolean;
+    driveId: string | null;
+    parents: string[];
+}
+
+/**
+ * Looks up a folder in My Drive or in a shared drive. The ID of a shared drive
+ * is accepted as well and stands for the top-level folder of that drive.
+ * @param drive The Drive API client.
+ * @param requests The scheduler the requests are sent through.
+ * @param folderId The ID of the folder or shared drive.
+ * @returns The folder and the ID of its shared drive, or null for My Drive.
+ */
+export async function locateFolder(
+    drive: drive_v3.Drive,
+    requests: RequestScheduler,
+    folderId: string
+): Promise<FolderLocation> {
+    try {
+        const {data} = await requests.execute(`Fetching folder ${folderId}`, () =>
+            drive.files.get({
+                fileId: folderId,
+                fields: 'id, name, mimeType, driveId, parents',
+                supportsAllDrives: true,
+            })
+        );
+        return {
+            id: data.id!,
+            name: data.name || '',
+            isFolder: data.mimeType === FOLDER_MIME_TYPE,
+            driveId: data.driveId || null,
+            parents: data.parents || [],
+        };
+    } catch (err: unknown) {
+        if ((err as {code?: number}).code !== 404) {
+            throw err;
+        }
+
+        // Not a file the user can see; it may still be a shared drive ID.
+        const {data} = await requests.execute(`Fetching shared drive ${folderId}`, () =>
+            drive.drives.get({driveId: folderId, fields: 'id, name'})
+        );
+        return {
+            id: data.id!,
+            name: data.name || '',
+            isFolder: true,
+            driveId: data.id!,
+            parents: [],
+        };
+    }
+}
+
+/**
+ * Builds the parameters that scope a files.list call to where a folder lives.
+ * Listings of a shared drive only see that drive; My Drive listings are unchanged.
+ * @param driveId The ID of the shared drive, or null for My Drive.
+ * @returns The corpus parameters for files.list.
+ */
+export function listScope(driveId: string | null): drive_v3.Params$Resource$Files$List {
+    return driveId
+        ? {
+              corpora: 'drive',
+              driveId,
+              includeItemsFromAllDrives: true,
+              supportsAllDrives: true,
+          }
+        : {supportsAllDrives: true};
+}
@@ -0,0 +1,100 @@
+import {ExportFormat} from '@/types';
+
+interface ExportFormatInfo {
+    mimeType: string;
+    extension: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+    pdf: {mimeType: 'application/pdf', extension: 'pdf'},
+    docx: {
+        mimeType:
+            'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        extension: 'docx',
+    },
+    xlsx: {
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        extension: 'xlsx',
+    },
+    pptx: {
+        mimeType:
+            'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        extension: 'pptx',
+    },
+    odt: {mimeType: 'application/vnd.oasis.opendocument.text', extension: 'odt'},
+    ods: {mimeType: 'application/vnd.oasis.opendocument.spreadsheet', extension: 'ods'},
+    odp: {mimeType: 'application/vnd.oasis.opendocument.presentation', extension: 'odp'},
+    rtf: {mimeType: 'application/rtf', extension: 'rtf'},
+    epub: {mimeType: 'application/epub+zip', extension: 'epub'},
+    html: {mimeType: 'application/zip', extension: 'zip'},
+    txt: {mimeType: 'text/plain', extension: 'txt'},
+    csv: {mimeType: 'text/csv', extension: 'csv'},
+    tsv: {mimeType: 'text/tab-separated-values', extension: 'tsv'},
+    png: {mimeType: 'image/png', extension: 'png'},
+    jpg: {mimeType: 'image/jpeg', extension: 'jpg'},
+    svg: {mimeType: 'image/svg+xml', extension: 'svg'},
+};
+
+// The first format of each list is the default used when none is requested.
+const WORKSPACE_EXPORT_FORMATS: Record<string, ExportFormat[]> = {
+    'application/vnd.google-apps.document': [
+        'pdf',
+        'docx',
+        'odt',
+        'rtf',
+        'txt',
+        'html',
+        'epub',
+    ],
+    'application/vnd.google-apps.spreadsheet': [
+        'xlsx',
+        'ods',
+        'csv',
+        'tsv',
+        'pdf',
+        'html',
+    ],
+    'application/vnd.google-apps.presentation': ['pdf', 'pptx', 'odp', 'txt'],
+    'application/vnd.google-apps.drawing': ['pdf', 'png', 'jpg', 'svg'],
+};
+
+/**
+ * Checks whether a mime type belongs to a native Google Workspace file.
+ * @param mimeType The mime type reported by Drive.
+ * @returns True for Google Docs, Sheets, Slides, Forms and other Workspace types.
+ */
+export function isWorkspaceMimeType(mimeType: string): boolean {
+    return mimeType.startsWith('application/vnd.google-apps.');
+}
+
+/**
+ * Picks the format a file must be exported to before it can be downloaded.
+ * @param mimeType The mime type of the file.
+ * @param requested The format requested by the caller, if any.
+ * @returns The export format, or null if the file can be downloaded as is.
+ */
+export function resolveExportFormat(
+    mimeType: string,
+    requested?: ExportFormat
+): ExportFormat | null {
+    if (!isWorkspaceMimeType(mimeType)) {
+        return null;
+    }
+
+    const supported = WORKSPACE_EXPORT_FORMATS[mimeType];
+    if (!supported) {
+        throw new Error(`Files of type ${mimeType} cannot be downloaded or exported.`);
+    }
+
+    if (!requested) {
+        return supported[0];
+    }
+
+    if (!supported.includes(requested)) {
+        throw new Error(
+            `Files of type ${mimeType} cannot be exported as ${requested}. Supported formats: ${supported.join(', ')}.`
+        );
+    }
+
+    return requested;
+}
@@ -1,55 +1,327 @@
 import path from 'path';
 import fs from 'fs';
+import {pipeline} from 'stream/promises';
 import {drive_v3} from 'googleapis';
 import {logger} from '@/utils/logger';
-import {extractFileIdFromLink} from '@/utils';
+import {computeFileMd5, extractFileIdFromLink, getFileSize, sleep} from '@/utils';
+import {DownloadedFile, DownloadOptions, ExportFormat, FileNamingStrategy} from '@/types';
+import {EXPORT_FORMATS, resolveExportFormat} from './export-formats';
+import {buildLocalFileName, resolveLocalFilePath} from './file-namer';
+import {RequestScheduler} from './request-scheduler';
+
+const TEMP_FILE_SUFFIX = '.part';
+const MAX_DOWNLOAD_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+interface PendingTransfer {
+    fileId: string;
+    tempPath: string;
+    exportMimeType?: string;
+    size: number | null;
+    md5Checksum: string | null;
+}
 
 export class FileDownloader {
     private drive: drive_v3.Drive;
+    private requests: RequestScheduler;
     private downloadsPath: string;
+    private fileNaming: FileNamingStrategy;
+    // Transfers to the same path share its temporary file, so they run one after
+    // the other.
+    private transfers = new Map<string, Promise<unknown>>();
 
-    constructor(drive: drive_v3.Drive, downloadsPath: string) {
+    constructor(
+        drive: drive_v3.Drive,
+        requests: RequestScheduler,
+        downloadsPath: string,
+        fileNaming: FileNamingStrategy
+    ) {
         this.drive = drive;
+        this.requests = requests;
         this.downloadsPath = downloadsPath;
+        this.fileNaming = fileNaming;
     }
 
     /**
      * Downloads a file from Google Drive given its webViewLink.
+     * Google Workspace files are exported, to the requested format if one is given
+     * and to the default format of their type otherwise. The local name follows
+     * the configured naming strategy and the real type of the file.
+     * The file is written to a temporary path, resumed and retried when the
+     * transfer breaks, and only moved into place once its checksum matches.
      * @param fileLink The webViewLink of the file.
-     * @returns The local file path where the file was downloaded.
+     * @param options Download options such as the export format.
+     * @param sharedName Whether another indexed file has the same name.
+     * @returns The local file path and the remote version that was downloaded.
      */
-    public async downloadFileFromGoogleDrive(fileLink: string): Promise<string> {
+    public async downloadFileFromGoogleDrive(
+        fileLink: string,
+        options: DownloadOptions = {},
+        sharedName = false
+    ): Promise<DownloadedFile> {
         const fileId = extractFileIdFromLink(fileLink);
         if (!fileId) throw new Error('Invalid Google Drive file link.');
 
         try {
-            await fs.promises.mkdir(this.downloadsPath, {recursive: true});
+            const file = await this.getFileMetadata(fileId);
+            const exportFormat = resolveExportFormat(
+                file.mimeType || '',
+                options.exportFormat
+            );
+            const fileName = buildLocalFileName(
+                {
+                    id: fileId,
+                    name: file.name || '',
+                    mimeType: file.mimeType || '',
+                    fileExtension: file.fileExtension,
+                },
+                this.fileNaming,
+                exportFormat ? EXPORT_FORMATS[exportFormat].extension : undefined
+            );
 
-            const filePath = path.join(this.downloadsPath, `${fileId}.pdf`);
-            const dest = fs.createWriteStream(filePath);
+            await fs.promises.mkdir(this.downloadsPath, {recursive: true});
 
-            const res = await this.drive.files.get(
-                {fileId, alt: 'media'},
-                {responseType: 'stream'}
+            const filePath = resolveLocalFilePath(
+                this.downloadsPath,
+                fileName,
+                fileId,
+                sharedName
             );
 
-            await new Promise<void>((resolve, reject) => {
-                res.data
-                    .on('end', () => {
-                        logger.info(`Downloaded file to ${filePath}`);
-                        resolve();
-                    })
-                    .on('error', (err: Error) => {
-                        logger.error('Error downloading file:', err);
-                        reject(new Error('Failed to download the file.'));
-                    })
-                    .pipe(dest);
-            });
-
-            return filePath;
+            return await this.transferFile(file, exportFormat, filePath);
         } catch (err: unknown) {
             logger.error('Error downloading file:', err);
-            throw new Error('Failed to download the file.');
+            throw new Error(`Failed to download the file: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Downloads a file from Google Drive to the given path, exporting Google
+     * Workspace files like downloadFileFromGoogleDrive does.
+     * @param fileId The ID of the file.
+     * @param filePath The path to write the file to.
+     * @param options Download options such as the export format.
+     * @returns The local file path and the remote version that was downloaded.
+     */
+    public async downloadFileToPath(
+        fileId: string,
+        filePath: string,
+        options: DownloadOptions = {}
+    ): Promise<DownloadedFile> {
+        try {
+            const file = await this.getFileMetadata(fileId);
+            const exportFormat = resolveExportFormat(
+                file.mimeType || '',
+                options.exportFormat
+            );
+
+            await fs.promises.mkdir(path.dirname(filePath), {recursive: true});
+
+            return await this.transferFile(file, exportFormat, filePath);
+        } catch (err: unknown) {
+            logger.error(`Error downloading file ${fileId}:`, err);
+            throw new Error(`Failed to download the file: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Fetches the metadata needed to name, download and verify a file.
+     * @param fileId The ID of the file.
+     * @returns The file metadata.
+     */
+    private async getFileMetadata(fileId: string): Promise<drive_v3.Schema$File> {
+        const {data} = await this.requests.execute(`Fetching metadata of ${fileId}`, () =>
+            this.drive.files.get({
+                fileId,
+                fields: 'id, name, mimeType, fileExtension, size, md5Checksum, modifiedTime, version',
+                supportsAllDrives: true,
+            })
+        );
+        return data;
+    }
+
+    /**
+     * Downloads a file through a temporary path and moves it into place once verified.
+     * Waits for any other transfer to the same path to finish first.
+     * @param file The file metadata.
+     * @param exportFormat The format to export to, or null to download as is.
+     * @param filePath The final path of the file.
+     * @returns The local file path and the remote version that was downloaded.
+     */
+    private async transferFile(
+        file: drive_v3.Schema$File,
+        exportFormat: ExportFormat | null,
+        filePath: string
+    ): Promise<DownloadedFile> {
+        const previous = this.transfers.get(filePath) ?? Promise.resolve();
+        const transfer = previous
+            .catch(() => undefined)
+            .then(() => this.transferFileToPath(file, exportFormat, filePath));
+        this.transfers.set(filePath, transfer);
+
+        try {
+            return await transfer;
+        } finally {
+            if (this.transfers.get(filePath) === transfer) {
+                this.transfers.delete(filePath);
+            }
+        }
+    }
+
+    /**
+     * Runs the transfer of transferFile once no other one uses the path.
+     * @param file The file metadata.
+     * @param exportFormat The format to export to, or null to download as is.
+     * @param filePath The final path of the file.
+     * @returns The local file path and the remote version that was downloaded.
+     */
+    private async transferFileToPath(
+        file: drive_v3.Schema$File,
+        exportFormat: ExportFormat | null,
+        filePath: string
+    ): Promise<DownloadedFile> {
+        const tempPath = `${filePath}${TEMP_FILE_SUFFIX}`;
+
+        await this.downloadWithRetries({
+            fileId: file.id!,
+            tempPath,
+            exportMimeType: exportFormat
+                ? EXPORT_FORMATS[exportFormat].mimeType
+                : undefined,
+            // Exports are generated on the fly, so Drive reports no size or checksum.
+            size: exportFormat || !file.size ? null : Number(file.size),
+            md5Checksum: exportFormat ? null : file.md5Checksum || null,
+        });
+
+        await fs.promises.rename(tempPath, filePath);
+        logger.info(`Downloaded file to ${filePath}`);
+
+        return {
+            localPath: filePath,
+            modifiedTime: file.modifiedTime || null,
+            md5Checksum: file.md5Checksum || null,
+            version: file.version ? Number(file.version) : null,
+        };
+    }
+
+    /**
+     * Downloads a file to its temporary path, retrying with exponential backoff
+     * until the transfer completes and passes verification.
+     * @param transfer The file to download and the values to verify it against.
+     */
+    private async downloadWithRetries(transfer: PendingTransfer): Promise<void> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await this.transferToTempFile(transfer);
+                await this.verifyTempFile(transfer);
+                return;
+            } catch (err) {
+                if (attempt >= MAX_DOWNLOAD_ATTEMPTS) {
+                    await fs.promises.rm(transfer.tempPath, {force: true});
+                    throw err;
+                }
+
+                const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+                logger.warn(
+                    `Download of ${transfer.fileId} failed (attempt ${attempt}/${MAX_DOWNLOAD_ATTEMPTS}), retrying in ${delay} ms:`,
+                    err
+                );
+                await sleep(delay);
+            }
+        }
+    }
+
+    /**
+     * Streams a file into its temporary path. When part of the file is already
+     * there, only the remaining bytes are requested with an HTTP Range header.
+     * @param transfer The file to download.
+     */
+    private async transferToTempFile(transfer: PendingTransfer): Promise<void> {
+        const {fileId, tempPath, exportMimeType, size} = transfer;
+
+        let offset = exportMimeType ? 0 : await getFileSize(tempPath);
+        if (size !== null && offset === size) {
+            return;
+        }
+        if (size !== null && offset > size) {
+            offset = 0;
+        }
+
+        const res = await this.requests.execute(`Downloading ${fileId}`, () =>
+            exportMimeType
+                ? this.drive.files.export(
+                      {fileId, mimeType: exportMimeType},
+                      {responseType: 'stream'}
+                  )
+                : this.drive.files.get(
+                      {fileId, alt: 'media', supportsAllDrives: true},
+                      {
+                          responseType: 'stream',
+                          headers: offset > 0 ? {Range: `bytes=${offset}-`} : undefined,
+                      }
+                  )
+        );
+
+        const resumed = offset > 0 && res.status === 206;
+        if (resumed) {
+            logger.info(`Resuming download of ${fileId} at byte ${offset}.`);
+        }
+
+        await pipeline(
+            res.data,
+            fs.createWriteStream(tempPath, {flags: resumed ? 'a' : 'w'})
+        );
+    }
+
+    /**
+     * Checks a downloaded file against the size and MD5 checksum reported by Drive.
+     * A file that does not match is deleted so the next attempt starts over.
+     * @param transfer The downloaded file and its expected values.
+     */
+    private async verifyTempFile(transfer: PendingTransfer): Promise<void> {
+        const {fileId, tempPath, size, md5Checksum} = transfer;
+
+        const actualSize = await getFileSize(tempPath);
+        const sizeMatches = size === null || actualSize === size;
+        const checksumMatches =
+            sizeMatches &&
+            (md5Checksum === null || (await computeFileMd5(tempPath)) === md5Checksum);
+
+        if (!sizeMatches || !checksumMatches) {
+            await fs.promises.rm(tempPath, {force: true});
+            throw new Error(`Downloaded content of ${fileId} does not match Drive.`);
+        }
+    }
+
+    /**
+     * Fetches the content of a file into memory.
+     * @param fileId The ID of the file.
+     * @param exportMimeType The format to export Google Workspace files to.
+     * @returns The file content.
+     */
+    public async fetchFileContent(
+        fileId: string,
+        exportMimeType?: string
+    ): Promise<Buffer> {
+        try {
+            const res = await this.requests.execute(
+                `Fetching content of ${fileId}`,
+                () =>
+                    exportMimeType
+                        ? this.drive.files.export(
+                              {fileId, mimeType: exportMimeType},
+                              {responseType: 'arraybuffer'}
+                          )
+                        : this.drive.files.get(
+                              {fileId, alt: 'media', supportsAllDrives: true},
+                              {responseType: 'arraybuffer'}
+                          )
+            );
+
+            return Buffer.from(res.data as ArrayBuffer);
+        } catch (err: unknown) {
+            logger.error(`Error fetching content of file ${fileId}:`, err);
+            throw new Error(`Failed to fetch file content: ${(err as Error).message}`);
         }
     }
 }
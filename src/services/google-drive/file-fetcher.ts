@@ -1,157 +1,199 @@
 import {drive_v3} from 'googleapis';
-import {GoogleFile} from '@/types';
+import {GoogleFile, GoogleFolder, TraversalOptions} from '@/types';
 import {logger} from '@/utils/logger';
-import {chunkArray, escapeQueryString} from '@/utils';
+import {chunkArray, mapWithConcurrency} from '@/utils';
+import {FILE_FIELDS, toGoogleFile} from './file-mapper';
+import {FolderLocation, listScope, locateFolder} from './drive-locator';
+import {RequestScheduler} from './request-scheduler';
+
+// Folders whose children are listed by one query.
+const PARENTS_PER_QUERY = 10;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * The folders under a root and the shared drive they are in.
+ */
+export interface FolderTree {
+    driveId: string | null;
+    // The root comes first.
+    folders: GoogleFolder[];
+}
 
 export class FileFetcher {
     private drive: drive_v3.Drive;
+    private requests: RequestScheduler;
 
-    constructor(drive: drive_v3.Drive) {
+    constructor(drive: drive_v3.Drive, requests: RequestScheduler) {
         this.drive = drive;
+        this.requests = requests;
     }
 
     /**
-     * Fetches all folders from Google Drive.
-     * @returns A Map of folder IDs to folder metadata.
+     * Lists the folders under a root, one level at a time. Each level is listed
+     * with a few parents per query and several queries in flight, so the cost
+     * follows the size of the tree rather than the size of the account.
+     * @param root The root folder.
+     * @param options The maximum depth to descend to and the number of parallel queries.
+     * @returns A Map of folder IDs to folder metadata, including the root.
      */
-    public async getAllFolders(): Promise<Map<string, drive_v3.Schema$File>> {
-        const folders: drive_v3.Schema$File[] = [];
-        let pageToken: string | undefined;
-
-        logger.info('Fetching all folders from Google Drive...');
+    public async listFolderTree(
+        root: FolderLocation,
+        options: TraversalOptions = {}
+    ): Promise<Map<string, drive_v3.Schema$File>> {
+        const maxDepth = options.maxDepth ?? Infinity;
+        const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+        const folders = new Map<string, drive_v3.Schema$File>([
+            [root.id, {id: root.id, name: root.name, parents: root.parents}],
+        ]);
+
+        logger.info(`Listing folders under ${root.id}...`);
         try {
-            do {
-                const res = await this.drive.files.list({
-                    pageSize: 1000,
-                    pageToken,
-                    q: "mimeType='application/vnd.google-apps.folder' and trashed=false",
-                    fields: 'nextPageToken, files(id, name, parents)',
-                });
-
-                if (res.data.files) {
-                    folders.push(...res.data.files);
+            let level = [root.id];
+            for (let depth = 0; level.length > 0 && depth < maxDepth; depth++) {
+                const children = await mapWithConcurrency(
+                    chunkArray(level, PARENTS_PER_QUERY),
+                    concurrency,
+                    parentIds => this.listChildFolders(parentIds, root.driveId)
+                );
+
+                level = [];
+                for (const child of children.flat()) {
+                    // A folder with several parents in the tree is listed once.
+                    if (!folders.has(child.id!)) {
+                        folders.set(child.id!, child);
+                        level.push(child.id!);
+                    }
                 }
-                pageToken = res.data.nextPageToken || undefined;
-            } while (pageToken);
+            }
 
-            logger.info(`Fetched ${folders.length} folders.`);
-            return new Map(folders.map(folder => [folder.id!, folder]));
+            logger.info(`Listed ${folders.size} folder(s) under ${root.id}.`);
+            return folders;
         } catch (err) {
-            logger.error('Error fetching folders:', err);
-            throw new Error(`Failed to fetch folders: ${(err as Error).message}`);
+            logger.error('Error listing folders:', err);
+            throw new Error(`Failed to list folders: ${(err as Error).message}`);
         }
     }
 
     /**
-     * Builds a list of folder IDs, including subfolders recursively.
-     * @param folderMap Map of all folders fetched from Google Drive.
-     * @param rootFolderIds Array of root folder IDs to start building the tree.
-     * @returns Array of all relevant folder IDs.
+     * Lists the folders directly inside any of the given folders.
+     * @param parentIds The IDs of the parent folders.
+     * @param driveId The ID of the shared drive the folders are in, or null for My Drive.
+     * @returns The child folders.
      */
-    public async buildFolderTree(
-        folderMap: Map<string, drive_v3.Schema$File>,
-        rootFolderIds: string[]
-    ): Promise<string[]> {
-        const allFolderIds: Set<string> = new Set();
-
-        const processFolder = (id: string) => {
-            if (allFolderIds.has(id)) return;
-            allFolderIds.add(id);
-            const folder = folderMap.get(id);
-            if (folder && folder.parents) {
-                for (const [childId, childFolder] of folderMap.entries()) {
-                    if (childFolder.parents && childFolder.parents.includes(id)) {
-                        processFolder(childId);
-                    }
-                }
-            }
-        };
+    private async listChildFolders(
+        parentIds: string[],
+        driveId: string | null
+    ): Promise<drive_v3.Schema$File[]> {
+        const parentQueries = parentIds.map(id => `'${id}' in parents`).join(' or ');
+        const folders: drive_v3.Schema$File[] = [];
+        let pageToken: string | undefined;
 
-        try {
-            rootFolderIds.forEach(id => processFolder(id));
-            logger.info(`Built folder tree with ${allFolderIds.size} folders.`);
-            return Array.from(allFolderIds);
-        } catch (err) {
-            logger.error('Error building folder tree:', err);
-            throw new Error(`Failed to build folder tree: ${(err as Error).message}`);
-        }
+        do {
+            const res = await this.requests.execute('Listing folders', () =>
+                this.drive.files.list({
+                    ...listScope(driveId),
+                    pageSize: 1000,
+                    pageToken,
+                    q: `(${parentQueries}) and mimeType='application/vnd.google-apps.folder' and trashed=false`,
+                    fields: 'nextPageToken, files(id, name, parents)',
+                })
+            );
+
+            folders.push(...(res.data.files || []));
+            pageToken = res.data.nextPageToken || undefined;
+        } while (pageToken);
+
+        return folders;
     }
 
     /**
-     * Searches for files within specified folders.
-     * @param folderIds Array of folder IDs to search within.
-     * @param query Optional query string to filter files.
-     * @returns Array of GoogleFile objects.
+     * Lists the files in the given folders and hands them over one page at a time.
+     * Several groups of folders are listed in parallel; each waits for its page to
+     * be handled before asking for the next, so memory use does not grow with the
+     * number of files.
+     * @param folderIds The IDs of the folders to list.
+     * @param driveId The ID of the shared drive the folders are in, or null for My Drive.
+     * @param onPage Handles one page of files.
+     * @param options The number of parallel queries.
+     * @returns The number of files listed.
      */
-    public async searchFilesInFolders(
+    public async streamFilesInFolders(
         folderIds: string[],
-        query: string = ''
-    ): Promise<GoogleFile[]> {
-        const files: GoogleFile[] = [];
-        const chunkSize = 5; // Adjust as needed
-        const folderIdChunks = chunkArray(folderIds, chunkSize);
-
-        logger.info(`Searching files in ${folderIds.length} folders...`);
+        driveId: string | null,
+        onPage: (files: GoogleFile[]) => Promise<void>,
+        options: TraversalOptions = {}
+    ): Promise<number> {
+        logger.info(`Listing files in ${folderIds.length} folders...`);
 
         try {
-            for (const chunk of folderIdChunks) {
-                const parentQueries = chunk.map(id => `'${id}' in parents`).join(' or ');
-                let pageToken: string | undefined;
-
-                do {
-                    let queryString = `(${parentQueries}) and mimeType != 'application/vnd.google-apps.folder' and trashed = false`;
-                    if (query.trim() !== '') {
-                        const sanitizedQuery = escapeQueryString(query);
-                        queryString += ` and name contains '${sanitizedQuery}'`;
-                    }
-
-                    const res = await this.drive.files.list({
-                        pageSize: 1000,
-                        pageToken,
-                        q: queryString,
-                        fields: 'nextPageToken, files(id, name, parents, webViewLink)',
-                    });
-
-                    if (res.data.files) {
-                        files.push(
-                            ...res.data.files.map(file => ({
-                                id: file.id!,
-                                name: file.name!,
-                                parents: file.parents || [],
-                                webViewLink: file.webViewLink || '',
-                            }))
+            const counts = await mapWithConcurrency(
+                chunkArray(folderIds, PARENTS_PER_QUERY),
+                options.concurrency ?? DEFAULT_CONCURRENCY,
+                async chunk => {
+                    const parentQueries = chunk
+                        .map(id => `'${id}' in parents`)
+                        .join(' or ');
+                    let count = 0;
+                    let pageToken: string | undefined;
+
+                    do {
+                        const res = await this.requests.execute('Listing files', () =>
+                            this.drive.files.list({
+                                ...listScope(driveId),
+                                pageSize: 1000,
+                                pageToken,
+                                q: `(${parentQueries}) and mimeType != 'application/vnd.google-apps.folder' and trashed = false`,
+                                fields: `nextPageToken, files(${FILE_FIELDS})`,
+                            })
                         );
-                    }
-                    pageToken = res.data.nextPageToken || undefined;
-                } while (pageToken);
-            }
 
-            logger.info(`Found ${files.length} file(s) matching the criteria.`);
-            return files;
+                        const files = (res.data.files || []).map(toGoogleFile);
+                        if (files.length > 0) {
+                            await onPage(files);
+                        }
+                        count += files.length;
+                        pageToken = res.data.nextPageToken || undefined;
+                    } while (pageToken);
+
+                    return count;
+                }
+            );
+
+            const total = counts.reduce((sum, count) => sum + count, 0);
+            logger.info(`Listed ${total} file(s).`);
+            return total;
         } catch (err) {
-            logger.error('Error searching files:', err);
-            throw new Error(`Failed to search files: ${(err as Error).message}`);
+            logger.error('Error listing files:', err);
+            throw new Error(`Failed to list files: ${(err as Error).message}`);
         }
     }
 
     /**
-     * Fetches all files from Google Drive based on root folder IDs.
-     * @param rootFolderIds Array of root folder IDs.
-     * @returns An object containing folderMap, folderIds, and files.
+     * Finds a root folder and lists the folders under it.
+     * Roots in shared drives are listed within their drive only.
+     * @param rootFolderId The ID of the root folder.
+     * @param options The maximum depth to descend to and the number of parallel queries.
+     * @returns The folders of the tree, the root first, and the drive they are in.
      */
-    public async fetchAllFiles(rootFolderIds: string[]): Promise<{
-        folderMap: Map<string, drive_v3.Schema$File>;
-        folderIds: string[];
-        files: GoogleFile[];
-    }> {
+    public async fetchFolderTree(
+        rootFolderId: string,
+        options: TraversalOptions = {}
+    ): Promise<FolderTree> {
         try {
-            const folderMap = await this.getAllFolders();
-            const folderIds = await this.buildFolderTree(folderMap, rootFolderIds);
-            const files = await this.searchFilesInFolders(folderIds);
-            return {folderMap, folderIds, files};
+            const root = await locateFolder(this.drive, this.requests, rootFolderId);
+            const folders = await this.listFolderTree(root, options);
+
+            return {
+                driveId: root.driveId,
+                folders: Array.from(folders.values(), folder => ({
+                    id: folder.id!,
+                    name: folder.name || '',
+                    parents: folder.parents || [],
+                })),
+            };
         } catch (err) {
-            logger.error('Error fetching all files:', err);
-            throw new Error(`Failed to fetch all files: ${(err as Error).message}`);
+            logger.error('Error fetching folder tree:', err);
+            throw new Error(`Failed to fetch folder tree: ${(err as Error).message}`);
         }
     }
 }
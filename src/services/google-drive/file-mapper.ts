@@ -0,0 +1,33 @@
+import {drive_v3} from 'googleapis';
+import {GoogleFile} from '@/types';
+
+/**
+ * File fields requested from Drive whenever file metadata is listed.
+ */
+export const FILE_FIELDS =
+    'id, name, parents, webViewLink, mimeType, size, modifiedTime, createdTime, md5Checksum, fileExtension, version, owners(displayName, emailAddress)';
+
+/**
+ * Normalizes file metadata returned by the Drive API into a GoogleFile.
+ * @param file The file returned by the Drive API.
+ * @returns The normalized file.
+ */
+export function toGoogleFile(file: drive_v3.Schema$File): GoogleFile {
+    return {
+        id: file.id!,
+        name: file.name || '',
+        parents: file.parents || [],
+        webViewLink: file.webViewLink || '',
+        mimeType: file.mimeType || '',
+        size: file.size ? Number(file.size) : null,
+        modifiedTime: file.modifiedTime || null,
+        createdTime: file.createdTime || null,
+        md5Checksum: file.md5Checksum || null,
+        fileExtension: file.fileExtension || null,
+        version: file.version ? Number(file.version) : null,
+        owners: (file.owners || []).map(owner => ({
+            displayName: owner.displayName || '',
+            emailAddress: owner.emailAddress || null,
+        })),
+    };
+}
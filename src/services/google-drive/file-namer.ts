@@ -0,0 +1,111 @@
+import path from 'path';
+import {FileNamingStrategy} from '@/types';
+import {sanitizeFileName} from '@/utils';
+
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+    'application/pdf': 'pdf',
+    'application/zip': 'zip',
+    'application/json': 'json',
+    'text/plain': 'txt',
+    'text/csv': 'csv',
+    'text/markdown': 'md',
+    'text/html': 'html',
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/svg+xml': 'svg',
+    'audio/mpeg': 'mp3',
+    'video/mp4': 'mp4',
+};
+
+interface NamedFile {
+    id: string;
+    name: string;
+    mimeType: string;
+    fileExtension?: string | null;
+}
+
+/**
+ * Picks the extension a downloaded file should have.
+ * @param file The Drive file.
+ * @param exportExtension The extension of the export format, for exported files.
+ * @returns The extension without a leading dot, or an empty string if unknown.
+ */
+function resolveExtension(file: NamedFile, exportExtension?: string): string {
+    if (exportExtension) {
+        return exportExtension;
+    }
+
+    return (
+        file.fileExtension ||
+        path.extname(file.name).slice(1) ||
+        EXTENSIONS_BY_MIME_TYPE[file.mimeType] ||
+        ''
+    ).toLowerCase();
+}
+
+/**
+ * Builds the name a file is saved under in the downloads directory.
+ * @param file The Drive file.
+ * @param strategy How the Drive ID and name are combined.
+ * @param exportExtension The extension of the export format, for exported files.
+ * @returns The sanitized file name, with its extension.
+ */
+export function buildLocalFileName(
+    file: NamedFile,
+    strategy: FileNamingStrategy,
+    exportExtension?: string
+): string {
+    const extension = resolveExtension(file, exportExtension);
+    const suffix = extension ? `.${extension}` : '';
+
+    if (strategy === 'id') {
+        return `${file.id}${suffix}`;
+    }
+
+    // Drive names usually carry their extension already; it is not repeated.
+    let baseName = file.name;
+    if (suffix && baseName.toLowerCase().endsWith(suffix)) {
+        baseName = baseName.slice(0, -suffix.length);
+    }
+    baseName = sanitizeFileName(baseName) || file.id;
+
+    return strategy === 'id-name'
+        ? `${file.id}_${baseName}${suffix}`
+        : `${baseName}${suffix}`;
+}
+
+/**
+ * Reduces a Drive name to the part that decides the local name, so that files
+ * that could end up with the same local name can be told apart.
+ * @param name The Drive name of the file.
+ * @returns The name without its extension, in lower case.
+ */
+export function getNameStem(name: string): string {
+    return path.parse(name).name.toLowerCase();
+}
+
+/**
+ * Resolves the path a file is written to. When other indexed files share its
+ * name, the Drive ID is appended to the base name, so that every file has a path
+ * of its own that does not depend on which one was downloaded first.
+ * @param directory The downloads directory.
+ * @param fileName The name built by buildLocalFileName.
+ * @param fileId The ID of the file being downloaded.
+ * @param sharedName Whether another indexed file has the same name.
+ * @returns The path to write the file to.
+ */
+export function resolveLocalFilePath(
+    directory: string,
+    fileName: string,
+    fileId: string,
+    sharedName: boolean
+): string {
+    if (!sharedName || fileName.includes(fileId)) {
+        return path.join(directory, fileName);
+    }
+
+    const extension = path.extname(fileName);
+    const baseName = fileName.slice(0, fileName.length - extension.length);
+    return path.join(directory, `${baseName} (${fileId})${extension}`);
+}
@@ -0,0 +1,313 @@
+import fs from 'fs';
+import {drive_v3} from 'googleapis';
+import {OAuth2Client} from 'google-auth-library';
+import {logger} from '@/utils/logger';
+import {sleep} from '@/utils';
+import {GoogleFile, GoogleFolder} from '@/types';
+import {FILE_FIELDS, toGoogleFile} from './file-mapper';
+import {RequestScheduler} from './request-scheduler';
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+const UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3/files';
+
+// Files above this size are sent in chunks through a resumable session.
+const RESUMABLE_UPLOAD_THRESHOLD = 5 * 1024 * 1024;
+// Drive requires chunks to be a multiple of 256 KiB.
+const UPLOAD_CHUNK_SIZE = 32 * 256 * 1024;
+const MAX_UPLOAD_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+type UploadProgress = {file: drive_v3.Schema$File} | {offset: number};
+
+export class FileUploader {
+    private drive: drive_v3.Drive;
+    private requests: RequestScheduler;
+    private authClient: OAuth2Client;
+
+    constructor(
+        drive: drive_v3.Drive,
+        requests: RequestScheduler,
+        authClient: OAuth2Client
+    ) {
+        this.drive = drive;
+        this.requests = requests;
+        this.authClient = authClient;
+    }
+
+    /**
+     * Uploads a local file as a new file in Google Drive. Large files go through
+     * a resumable session so that a broken connection only resends one chunk.
+     * @param localPath The path of the file to upload.
+     * @param parentFolderId The ID of the folder to upload into.
+     * @param name The name of the file in Drive.
+     * @param mimeType The mime type of the file, detected by Drive if omitted.
+     * @returns The created file.
+     */
+    public async uploadFile(
+        localPath: string,
+        parentFolderId: string,
+        name: string,
+        mimeType?: string
+    ): Promise<GoogleFile> {
+        try {
+            const file = await this.upload(
+                localPath,
+                {name, mimeType, parents: [parentFolderId]},
+                null
+            );
+            logger.info(`Uploaded ${localPath} as file ${file.id}.`);
+            return file;
+        } catch (err: unknown) {
+            logger.error('Error uploading file:', err);
+            throw new Error(`Failed to upload the file: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Replaces the content of an existing Drive file with a local file.
+     * @param fileId The ID of the file to update.
+     * @param localPath The path of the new content.
+     * @param name A new name for the file, if it should be renamed.
+     * @param mimeType The mime type of the new content, detected by Drive if omitted.
+     * @returns The updated file.
+     */
+    public async updateFile(
+        fileId: string,
+        localPath: string,
+        name?: string,
+        mimeType?: string
+    ): Promise<GoogleFile> {
+        try {
+            const file = await this.upload(localPath, {name, mimeType}, fileId);
+            logger.info(`Updated file ${fileId} from ${localPath}.`);
+            return file;
+        } catch (err: unknown) {
+            logger.error(`Error updating file ${fileId}:`, err);
+            throw new Error(`Failed to update the file: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Creates a folder in Google Drive.
+     * @param name The name of the folder.
+     * @param parentFolderId The ID of the folder to create it in.
+     * @returns The created folder.
+     */
+    public async createFolder(
+        name: string,
+        parentFolderId: string
+    ): Promise<GoogleFolder> {
+        try {
+            const {data} = await this.requests.execute(`Creating folder ${name}`, () =>
+                this.drive.files.create({
+                    requestBody: {
+                        name,
+                        mimeType: FOLDER_MIME_TYPE,
+                        parents: [parentFolderId],
+                    },
+                    fields: 'id, name, parents',
+                    supportsAllDrives: true,
+                })
+            );
+            logger.info(`Created folder ${data.id}.`);
+            return {id: data.id!, name: data.name || '', parents: data.parents || []};
+        } catch (err: unknown) {
+            logger.error('Error creating folder:', err);
+            throw new Error(`Failed to create the folder: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Sends a file to Drive, creating a new file or updating an existing one.
+     * @param localPath The path of the file to upload.
+     * @param metadata The Drive metadata to set.
+     * @param fileId The ID of the file to update, or null to create one.
+     * @returns The file as stored in Drive.
+     */
+    private async upload(
+        localPath: string,
+        metadata: drive_v3.Schema$File,
+        fileId: string | null
+    ): Promise<GoogleFile> {
+        const {size} = await fs.promises.stat(localPath);
+        const mimeType = metadata.mimeType || DEFAULT_MIME_TYPE;
+
+        if (size > RESUMABLE_UPLOAD_THRESHOLD) {
+            return toGoogleFile(
+                await this.uploadResumable(localPath, size, mimeType, metadata, fileId)
+            );
+        }
+
+        // The stream is opened per attempt, since a failed request consumes it.
+        const {data} = await this.requests.execute(`Uploading ${localPath}`, () => {
+            const media = {mimeType, body: fs.createReadStream(localPath)};
+            return fileId
+                ? this.drive.files.update({
+                      fileId,
+                      requestBody: metadata,
+                      media,
+                      fields: FILE_FIELDS,
+                      supportsAllDrives: true,
+                  })
+                : this.drive.files.create({
+                      requestBody: metadata,
+                      media,
+                      fields: FILE_FIELDS,
+                      supportsAllDrives: true,
+                  });
+        });
+
+        return toGoogleFile(data);
+    }
+
+    /**
+     * Uploads a file in chunks through a resumable upload session. When a chunk
+     * fails, Drive is asked how much it received and the upload carries on from
+     * there, with exponential backoff between attempts.
+     * @param localPath The path of the file to upload.
+     * @param size The size of the file in bytes.
+     * @param mimeType The mime type of the content.
+     * @param metadata The Drive metadata to set.
+     * @param fileId The ID of the file to update, or null to create one.
+     * @returns The file as stored in Drive.
+     */
+    private async uploadResumable(
+        localPath: string,
+        size: number,
+        mimeType: string,
+        metadata: drive_v3.Schema$File,
+        fileId: string | null
+    ): Promise<drive_v3.Schema$File> {
+        const session = await this.requests.execute(
+            `Opening upload of ${localPath}`,
+            () =>
+                this.authClient.request({
+                    url: fileId ? `${UPLOAD_URL}/${fileId}` : UPLOAD_URL,
+                    method: fileId ? 'PATCH' : 'POST',
+                    params: {
+                        uploadType: 'resumable',
+                        fields: FILE_FIELDS,
+                        supportsAllDrives: true,
+                    },
+                    headers: {
+                        'X-Upload-Content-Type': mimeType,
+                        'X-Upload-Content-Length': String(size),
+                    },
+                    data: metadata,
+                    retry: false,
+                })
+        );
+        const sessionUri = session.headers.location;
+        if (!sessionUri) {
+            throw new Error('Drive did not open an upload session.');
+        }
+
+        const handle = await fs.promises.open(localPath, 'r');
+        try {
+            let offset: number | null = 0;
+            let received = 0;
+            for (let attempt = 1; ; attempt++) {
+                try {
+                    const progress: UploadProgress =
+                        offset === null
+                            ? await this.sendToSession(sessionUri, `bytes */${size}`)
+                            : await this.sendChunk(sessionUri, handle, offset, size);
+
+                    if ('file' in progress) {
+                        return progress.file;
+                    }
+                    // Attempts are counted per chunk, so they restart once Drive
+                    // confirms new bytes.
+                    if (progress.offset > received) {
+                        received = progress.offset;
+                        attempt = 0;
+                    }
+                    offset = progress.offset;
+                } catch (err) {
+                    // Request errors carry the chunk they sent, which must not end
+                    // up serialized in the logs, so only the message is kept.
+                    const message = (err as Error).message;
+                    if (attempt >= MAX_UPLOAD_ATTEMPTS) {
+                        throw new Error(message);
+                    }
+
+                    const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+                    logger.warn(
+                        `Upload of ${localPath} failed (attempt ${attempt}/${MAX_UPLOAD_ATTEMPTS}), retrying in ${delay} ms: ${message}`
+                    );
+                    await sleep(delay);
+                    // The failed chunk may have arrived in part, so Drive is asked first.
+                    offset = null;
+                }
+            }
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * Reads the chunk starting at the given offset and sends it to the session.
+     * @param sessionUri The URI of the resumable session.
+     * @param handle The open file.
+     * @param offset The first byte to send.
+     * @param size The size of the file in bytes.
+     * @returns The uploaded file, or the offset to continue from.
+     */
+    private async sendChunk(
+        sessionUri: string,
+        handle: fs.promises.FileHandle,
+        offset: number,
+        size: number
+    ): Promise<UploadProgress> {
+        const length = Math.min(UPLOAD_CHUNK_SIZE, size - offset);
+        const chunk = Buffer.alloc(length);
+        await handle.read(chunk, 0, length, offset);
+
+        return this.sendToSession(
+            sessionUri,
+            `bytes ${offset}-${offset + length - 1}/${size}`,
+            chunk
+        );
+    }
+
+    /**
+     * Sends a chunk, or an empty status query, to a resumable session.
+     * @param sessionUri The URI of the resumable session.
+     * @param contentRange The Content-Range header of the request.
+     * @param chunk The bytes to send, if any.
+     * @returns The uploaded file, or the offset to continue from.
+     */
+    private async sendToSession(
+        sessionUri: string,
+        contentRange: string,
+        chunk?: Buffer
+    ): Promise<UploadProgress> {
+        // A chunk may arrive in part, so failures are left to uploadResumable,
+        // which asks Drive where to continue from.
+        const res = await this.requests.execute(
+            'Sending upload chunk',
+            () =>
+                this.authClient.request<drive_v3.Schema$File>({
+                    url: sessionUri,
+                    method: 'PUT',
+                    headers: {'Content-Range': contentRange},
+                    data: chunk ?? Buffer.alloc(0),
+                    // Drive answers 308 while the upload is incomplete.
+                    validateStatus: status =>
+                        status === 308 || (status >= 200 && status < 300),
+                    retry: false,
+                }),
+            {retry: false}
+        );
+
+        if (res.status !== 308) {
+            return {file: res.data};
+        }
+
+        // The Range header reports the bytes received so far, as "bytes=0-<last>".
+        const range: string | undefined = res.headers.range;
+        const received = range?.match(/bytes=0-(\d+)/);
+        return {offset: received ? Number(received[1]) + 1 : 0};
+    }
+}
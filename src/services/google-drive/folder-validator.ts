@@ -1,37 +1,37 @@
 import {drive_v3} from 'googleapis';
 import {logger} from '@/utils/logger';
+import {locateFolder} from './drive-locator';
+import {RequestScheduler} from './request-scheduler';
 
 export class FolderValidator {
     private drive: drive_v3.Drive;
+    private requests: RequestScheduler;
 
-    constructor(drive: drive_v3.Drive) {
+    constructor(drive: drive_v3.Drive, requests: RequestScheduler) {
         this.drive = drive;
+        this.requests = requests;
     }
 
     /**
      * Validates that the provided folderId is valid, accessible, and represents a folder.
+     * Folders in shared drives and shared drive IDs are accepted.
      * @param folderId The ID of the folder to validate.
      */
     public async validateFolderId(folderId: string): Promise<void> {
         try {
             logger.info(`Validating folderId: ${folderId}`);
 
-            const res = await this.drive.files.get({
-                fileId: folderId,
-                fields: 'id, name, mimeType',
-            });
+            const folder = await locateFolder(this.drive, this.requests, folderId);
 
-            const file = res.data;
-
-            if (!file) {
-                throw new Error(`Folder with ID ${folderId} not found.`);
-            }
-
-            if (file.mimeType !== 'application/vnd.google-apps.folder') {
+            if (!folder.isFolder) {
                 throw new Error(`The provided ID ${folderId} is not a folder.`);
             }
 
-            logger.info(`Validated folderId ${folderId}: ${file.name}`);
+            logger.info(
+                folder.driveId
+                    ? `Validated folderId ${folderId}: ${folder.name} (shared drive ${folder.driveId})`
+                    : `Validated folderId ${folderId}: ${folder.name}`
+            );
         } catch (error: unknown) {
             const errorCode = (error as {code?: number}).code;
             const errorMessage =
@@ -1,22 +1,60 @@
 import {GoogleDriveClient} from './client';
 import {FolderValidator} from './folder-validator';
-import {FileFetcher} from './file-fetcher';
+import {FileFetcher, FolderTree} from './file-fetcher';
 import {FileDownloader} from './file-downloader';
+import {FileUploader} from './file-uploader';
+import {ChangeTracker} from './change-tracker';
+import {RequestScheduler} from './request-scheduler';
 import {OAuth2Client} from 'google-auth-library';
-import {GoogleFile} from '@/types';
-import {drive_v3} from 'googleapis';
+import {
+    DownloadedFile,
+    DownloadOptions,
+    DriveChangeSet,
+    FileNamingStrategy,
+    GoogleFile,
+    GoogleFolder,
+    RequestPolicy,
+    RequestStats,
+    TraversalOptions,
+} from '@/types';
 
 export class GoogleDriveService {
     private client: GoogleDriveClient;
     private validator: FolderValidator;
     private fetcher: FileFetcher;
     private downloader: FileDownloader;
+    private uploader: FileUploader;
+    private changeTracker: ChangeTracker;
+    private requests: RequestScheduler;
 
-    constructor(authClient: OAuth2Client, downloadsPath: string) {
+    constructor(
+        authClient: OAuth2Client,
+        downloadsPath: string,
+        fileNaming: FileNamingStrategy = 'id',
+        requestPolicy: RequestPolicy = {}
+    ) {
         this.client = new GoogleDriveClient(authClient);
-        this.validator = new FolderValidator(this.client.drive);
-        this.fetcher = new FileFetcher(this.client.drive);
-        this.downloader = new FileDownloader(this.client.drive, downloadsPath);
+        // Every component sends its requests through one scheduler, so the rate
+        // limit holds across refreshes, downloads and uploads running together.
+        this.requests = new RequestScheduler(requestPolicy);
+        this.validator = new FolderValidator(this.client.drive, this.requests);
+        this.fetcher = new FileFetcher(this.client.drive, this.requests);
+        this.downloader = new FileDownloader(
+            this.client.drive,
+            this.requests,
+            downloadsPath,
+            fileNaming
+        );
+        this.uploader = new FileUploader(this.client.drive, this.requests, authClient);
+        this.changeTracker = new ChangeTracker(this.client.drive, this.requests);
+    }
+
+    /**
+     * Returns how many Drive API requests were sent, retried and throttled.
+     * @returns The request counters.
+     */
+    public getRequestStats(): RequestStats {
+        return this.requests.getStats();
     }
 
     /**
@@ -28,24 +66,139 @@ export class GoogleDriveService {
     }
 
     /**
-     * Fetches all files under the specified root folder IDs.
-     * @param rootFolderIds Array of root folder IDs.
-     * @returns An object containing the folder map, folder IDs, and files.
+     * Finds a root folder and lists the folders under it.
+     * @param rootFolderId The ID of the root folder.
+     * @param options The maximum depth to descend to and the number of parallel queries.
+     * @returns The folders of the tree, the root first, and the drive they are in.
+     */
+    public async fetchFolderTree(
+        rootFolderId: string,
+        options?: TraversalOptions
+    ): Promise<FolderTree> {
+        return this.fetcher.fetchFolderTree(rootFolderId, options);
+    }
+
+    /**
+     * Lists the files in the given folders, one page at a time.
+     * @param folderIds The IDs of the folders to list.
+     * @param driveId The ID of the shared drive the folders are in, or null for My Drive.
+     * @param onPage Handles one page of files.
+     * @param options The number of parallel queries.
+     * @returns The number of files listed.
+     */
+    public async streamFilesInFolders(
+        folderIds: string[],
+        driveId: string | null,
+        onPage: (files: GoogleFile[]) => Promise<void>,
+        options?: TraversalOptions
+    ): Promise<number> {
+        return this.fetcher.streamFilesInFolders(folderIds, driveId, onPage, options);
+    }
+
+    /**
+     * Retrieves the token marking the current position in the Drive change log.
+     * @returns The start page token.
      */
-    public async fetchAllFiles(rootFolderIds: string[]): Promise<{
-        folderMap: Map<string, drive_v3.Schema$File>;
-        folderIds: string[];
-        files: GoogleFile[];
-    }> {
-        return this.fetcher.fetchAllFiles(rootFolderIds);
+    public async getStartPageToken(): Promise<string> {
+        return this.changeTracker.getStartPageToken();
     }
 
     /**
-     * Downloads a file from Google Drive.
+     * Lists the changes recorded since the given page token.
+     * @param pageToken The token saved after the previous refresh.
+     * @returns The changes and the next start page token, or null if the token expired.
+     */
+    public async listChanges(pageToken: string): Promise<DriveChangeSet | null> {
+        return this.changeTracker.listChanges(pageToken);
+    }
+
+    /**
+     * Downloads a file from Google Drive, exporting Google Workspace files.
      * @param fileLink The webViewLink of the file.
-     * @returns The local file path where the file was downloaded.
+     * @param options Download options such as the export format.
+     * @param sharedName Whether another indexed file has the same name.
+     * @returns The local file path and the remote version that was downloaded.
+     */
+    public async downloadFile(
+        fileLink: string,
+        options?: DownloadOptions,
+        sharedName?: boolean
+    ): Promise<DownloadedFile> {
+        return this.downloader.downloadFileFromGoogleDrive(fileLink, options, sharedName);
+    }
+
+    /**
+     * Downloads a file from Google Drive to the given path.
+     * @param fileId The ID of the file.
+     * @param filePath The path to write the file to.
+     * @param options Download options such as the export format.
+     * @returns The local file path and the remote version that was downloaded.
+     */
+    public async downloadFileToPath(
+        fileId: string,
+        filePath: string,
+        options?: DownloadOptions
+    ): Promise<DownloadedFile> {
+        return this.downloader.downloadFileToPath(fileId, filePath, options);
+    }
+
+    /**
+     * Fetches the content of a file into memory.
+     * @param fileId The ID of the file.
+     * @param exportMimeType The format to export Google Workspace files to.
+     * @returns The file content.
+     */
+    public async fetchFileContent(
+        fileId: string,
+        exportMimeType?: string
+    ): Promise<Buffer> {
+        return this.downloader.fetchFileContent(fileId, exportMimeType);
+    }
+
+    /**
+     * Uploads a local file as a new file in Google Drive.
+     * @param localPath The path of the file to upload.
+     * @param parentFolderId The ID of the folder to upload into.
+     * @param name The name of the file in Drive.
+     * @param mimeType The mime type of the file, detected by Drive if omitted.
+     * @returns The created file.
+     */
+    public async uploadFile(
+        localPath: string,
+        parentFolderId: string,
+        name: string,
+        mimeType?: string
+    ): Promise<GoogleFile> {
+        return this.uploader.uploadFile(localPath, parentFolderId, name, mimeType);
+    }
+
+    /**
+     * Replaces the content of an existing Drive file with a local file.
+     * @param fileId The ID of the file to update.
+     * @param localPath The path of the new content.
+     * @param name A new name for the file, if it should be renamed.
+     * @param mimeType The mime type of the new content, detected by Drive if omitted.
+     * @returns The updated file.
+     */
+    public async updateFile(
+        fileId: string,
+        localPath: string,
+        name?: string,
+        mimeType?: string
+    ): Promise<GoogleFile> {
+        return this.uploader.updateFile(fileId, localPath, name, mimeType);
+    }
+
+    /**
+     * Creates a folder in Google Drive.
+     * @param name The name of the folder.
+     * @param parentFolderId The ID of the folder to create it in.
+     * @returns The created folder.
      */
-    public async downloadFile(fileLink: string): Promise<string> {
-        return this.downloader.downloadFileFromGoogleDrive(fileLink);
+    public async createFolder(
+        name: string,
+        parentFolderId: string
+    ): Promise<GoogleFolder> {
+        return this.uploader.createFolder(name, parentFolderId);
     }
 }
@@ -0,0 +1,195 @@
+import {logger} from '@/utils/logger';
+import {sleep} from '@/utils';
+import {RequestPolicy, RequestStats} from '@/types';
+
+const DEFAULT_POLICY: Required<RequestPolicy> = {
+    maxRetries: 5,
+    baseDelayMs: 1000,
+    maxDelayMs: 32000,
+    maxRequestsPerSecond: 20,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+// Drive reports exceeded quotas as 403 errors carrying one of these reasons.
+const RATE_LIMIT_REASONS = new Set(['userRateLimitExceeded', 'rateLimitExceeded']);
+const RETRYABLE_NETWORK_CODES = new Set([
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EAI_AGAIN',
+]);
+
+interface RequestError {
+    code?: number | string;
+    response?: {
+        status?: number;
+        headers?: Record<string, string | undefined>;
+        data?: {error?: {errors?: {reason?: string}[]}};
+    };
+    errors?: {reason?: string}[];
+}
+
+export interface ExecuteOptions {
+    // Requests that handle their own failures, such as upload chunks, are only throttled.
+    retry?: boolean;
+}
+
+export class RequestScheduler {
+    private policy: Required<RequestPolicy>;
+    private stats: RequestStats = {
+        requests: 0,
+        retries: 0,
+        rateLimited: 0,
+        throttled: 0,
+        failed: 0,
+    };
+    // The earliest time the next request may be sent, in milliseconds.
+    private nextSlot = 0;
+
+    constructor(policy: RequestPolicy = {}) {
+        this.policy = {...DEFAULT_POLICY, ...policy};
+    }
+
+    /**
+     * Sends a Drive API request, waiting for a free slot under the rate limit.
+     * Rate limit errors, server errors and dropped connections are retried with
+     * exponential backoff and jitter, or after the delay Drive asks for with a
+     * Retry-After header. Other errors are thrown as they are.
+     * @param operation A short description of the request, used in logs.
+     * @param request Sends the request.
+     * @param options Whether failed requests are retried.
+     * @returns The response.
+     */
+    public async execute<T>(
+        operation: string,
+        request: () => Promise<T>,
+        options: ExecuteOptions = {}
+    ): Promise<T> {
+        const maxRetries = options.retry === false ? 0 : this.policy.maxRetries;
+
+        for (let attempt = 0; ; attempt++) {
+            await this.acquireSlot();
+            this.stats.requests++;
+
+            try {
+                return await request();
+            } catch (err) {
+                const error = err as RequestError;
+                const rateLimited = this.isRateLimited(error);
+                if (rateLimited) {
+                    this.stats.rateLimited++;
+                }
+
+                if (attempt >= maxRetries || !(rateLimited || this.isRetryable(error))) {
+                    this.stats.failed++;
+                    throw err;
+                }
+
+                const retryAfter = this.getRetryAfter(error);
+                const delay = retryAfter ?? this.getBackoffDelay(attempt);
+                if (retryAfter !== null) {
+                    // Drive asked every client to wait, so other requests are held too.
+                    this.nextSlot = Math.max(this.nextSlot, Date.now() + retryAfter);
+                }
+
+                this.stats.retries++;
+                // Errors can carry the request body, so only the message is logged.
+                logger.warn(
+                    `${operation} failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${delay} ms: ${(err as Error).message}`
+                );
+                await sleep(delay);
+            }
+        }
+    }
+
+    /**
+     * Returns how many requests were sent, retried and held back so far.
+     * @returns A copy of the counters.
+     */
+    public getStats(): RequestStats {
+        return {...this.stats};
+    }
+
+    /**
+     * Waits until the next request fits under the configured rate. Slots are
+     * handed out in order, so concurrent callers are spread evenly.
+     */
+    private async acquireSlot(): Promise<void> {
+        const interval = 1000 / this.policy.maxRequestsPerSecond;
+        const now = Date.now();
+        const slot = Math.max(now, this.nextSlot);
+        this.nextSlot = slot + interval;
+
+        if (slot > now) {
+            this.stats.throttled++;
+            await sleep(slot - now);
+        }
+    }
+
+    /**
+     * Computes the delay before a retry: exponential in the attempt number,
+     * capped, with random jitter so that clients do not retry in lockstep.
+     * @param attempt The zero-based number of the attempt that failed.
+     * @returns The delay in milliseconds.
+     */
+    private getBackoffDelay(attempt: number): number {
+        const exponential = Math.min(
+            this.policy.maxDelayMs,
+            this.policy.baseDelayMs * 2 ** attempt
+        );
+        return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+    }
+
+    /**
+     * Reads the Retry-After header, given either in seconds or as an HTTP date.
+     * @param error The failed request.
+     * @returns The delay in milliseconds, or null if Drive did not send one.
+     */
+    private getRetryAfter(error: RequestError): number | null {
+        const header = error.response?.headers?.['retry-after'];
+        if (!header) {
+            return null;
+        }
+
+        const seconds = Number(header);
+        if (Number.isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(header);
+        return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+    }
+
+    /**
+     * Checks whether a request failed because a quota or rate limit was hit.
+     * @param error The failed request.
+     * @returns True for 429 responses and 403 rate limit errors.
+     */
+    private isRateLimited(error: RequestError): boolean {
+        const status = error.response?.status;
+        if (status === 429) {
+            return true;
+        }
+
+        const reasons = error.errors ?? error.response?.data?.error?.errors ?? [];
+        return (
+            status === 403 &&
+            reasons.some(
+                ({reason}) => reason !== undefined && RATE_LIMIT_REASONS.has(reason)
+            )
+        );
+    }
+
+    /**
+     * Checks whether a request failed in a way that may succeed when sent again.
+     * @param error The failed request.
+     * @returns True for server errors and dropped connections.
+     */
+    private isRetryable(error: RequestError): boolean {
+        const status = error.response?.status;
+        if (status !== undefined) {
+            return RETRYABLE_STATUSES.has(status);
+        }
+        return typeof error.code === 'string' && RETRYABLE_NETWORK_CODES.has(error.code);
+    }
+}
@@ -0,0 +1,456 @@
+import fs from 'fs/promises';
+import {Logger} from '@/utils/logger';
+import {DatabaseVersionError} from '@/errors';
+import type {SQLiteDB} from '@/services/database';
+
+export interface Migration {
+    version: number;
+    description: string;
+    // Destructive migrations drop or rewrite data, so a backup is taken first.
+    destructive?: boolean;
+    up(db: SQLiteDB): Promise<void>;
+}
+
+/**
+ * Adds a column to a table unless it is already there.
+ * @param db The database connection.
+ * @param table The table to alter.
+ * @param column The column name.
+ * @param definition The column type and constraints.
+ */
+async function addColumn(
+    db: SQLiteDB,
+    table: string,
+    column: string,
+    definition: string
+): Promise<void> {
+    const columns: {name: string}[] = await db.all(`PRAGMA table_info(${table});`);
+    if (!columns.some(existing => existing.name === column)) {
+        await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+    }
+}
+
+/**
+ * Ordered list of schema changes. Databases created before versioning was added
+ * already hold some of these tables and columns, so every step must be safe to
+ * run against them. Never edit a released migration; append a new one instead.
+ */
+export const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'Create files table',
+        async up(db) {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS files (
+                    id TEXT PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    parents TEXT,
+                    webViewLink TEXT NOT NULL,
+                    localPath TEXT
+                );
+
+                CREATE INDEX IF NOT EXISTS idx_name ON files(name);
+            `);
+        },
+    },
+    {
+        version: 2,
+        description: 'Create folders and metadata tables',
+        async up(db) {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS folders (
+                    id TEXT PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    parents TEXT
+                );
+
+                CREATE TABLE IF NOT EXISTS metadata (
+                    key TEXT PRIMARY KEY,
+                    value TEXT
+                );
+            `);
+        },
+    },
+    {
+        version: 3,
+        description: 'Create full-text search index over file names',
+        async up(db) {
+            // The index is linked to the implicit rowid of files, so it is rebuilt
+            // from the current rows once created.
+            await db.exec(`
+                CREATE VIRTUAL TABLE IF NOT EXISTS files_fts USING fts5(
+                    name,
+                    content = 'files',
+                    content_rowid = 'rowid'
+                );
+
+                CREATE TRIGGER IF NOT EXISTS files_fts_insert AFTER INSERT ON files BEGIN
+                    INSERT INTO files_fts (rowid, name) VALUES (new.rowid, new.name);
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS files_fts_delete AFTER DELETE ON files BEGIN
+                    INSERT INTO files_fts (files_fts, rowid, name)
+                    VALUES ('delete', old.rowid, old.name);
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS files_fts_update AFTER UPDATE OF name ON files BEGIN
+                    INSERT INTO files_fts (files_fts, rowid, name)
+                    VALUES ('delete', old.rowid, old.name);
+                    INSERT INTO files_fts (rowid, name) VALUES (new.rowid, new.name);
+                END;
+
+                INSERT INTO files_fts (files_fts) VALUES ('rebuild');
+            `);
+        },
+    },
+    {
+        version: 4,
+        description: 'Add mime type column and file content index',
+        async up(db) {
+            await addColumn(db, 'files', 'mimeType', 'TEXT');
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS file_contents (
+                    id TEXT PRIMARY KEY,
+                    content TEXT NOT NULL,
+                    extractedAt TEXT NOT NULL
+                );
+
+                CREATE VIRTUAL TABLE IF NOT EXISTS contents_fts USING fts5(
+                    content,
+                    content = 'file_contents',
+                    content_rowid = 'rowid'
+                );
+
+                CREATE TRIGGER IF NOT EXISTS contents_fts_insert AFTER INSERT ON file_contents BEGIN
+                    INSERT INTO contents_fts (rowid, content) VALUES (new.rowid, new.content);
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS contents_fts_delete AFTER DELETE ON file_contents BEGIN
+                    INSERT INTO contents_fts (contents_fts, rowid, content)
+                    VALUES ('delete', old.rowid, old.content);
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS contents_fts_update AFTER UPDATE OF content ON file_contents BEGIN
+                    INSERT INTO contents_fts (contents_fts, rowid, content)
+                    VALUES ('delete', old.rowid, old.content);
+                    INSERT INTO contents_fts (rowid, content) VALUES (new.rowid, new.content);
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS files_contents_delete AFTER DELETE ON files BEGIN
+                    DELETE FROM file_contents WHERE id = old.id;
+                END;
+            `);
+        },
+    },
+    {
+        version: 5,
+        description: 'Add file metadata columns',
+        async up(db) {
+            await addColumn(db, 'files', 'size', 'INTEGER');
+            await addColumn(db, 'files', 'modifiedTime', 'TEXT');
+            await addColumn(db, 'files', 'createdTime', 'TEXT');
+            await addColumn(db, 'files', 'md5Checksum', 'TEXT');
+            await addColumn(db, 'files', 'fileExtension', 'TEXT');
+            await addColumn(db, 'files', 'owners', 'TEXT');
+            await db.exec(`
+                CREATE INDEX IF NOT EXISTS idx_mime_type ON files(mimeType);
+                CREATE INDEX IF NOT EXISTS idx_modified_time ON files(modifiedTime);
+            `);
+        },
+    },
+    {
+        version: 6,
+        description: 'Add download cache tracking columns',
+        async up(db) {
+            await addColumn(db, 'files', 'localSize', 'INTEGER');
+            await addColumn(db, 'files', 'lastAccessedAt', 'TEXT');
+            await addColumn(db, 'files', 'pinned', 'INTEGER NOT NULL DEFAULT 0');
+            await db.exec(`
+                CREATE INDEX IF NOT EXISTS idx_last_accessed_at ON files(lastAccessedAt);
+            `);
+        },
+    },
+    {
+        version: 7,
+        description: 'Track the remote version of downloaded copies',
+        async up(db) {
+            await addColumn(db, 'files', 'version', 'INTEGER');
+            await addColumn(db, 'files', 'localModifiedTime', 'TEXT');
+            await addColumn(db, 'files', 'localMd5Checksum', 'TEXT');
+            await addColumn(db, 'files', 'localVersion', 'INTEGER');
+            await addColumn(db, 'files', 'stale', 'INTEGER NOT NULL DEFAULT 0');
+            // Copies downloaded before this version are assumed to be current.
+            await db.exec(`
+                UPDATE files
+                SET localModifiedTime = modifiedTime, localMd5Checksum = md5Checksum
+                WHERE localPath IS NOT NULL;
+            `);
+        },
+    },
+    {
+        version: 8,
+        description: 'Index several root folders in one database',
+        async up(db) {
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS roots (
+                    id TEXT PRIMARY KEY,
+                    name TEXT,
+                    addedAt TEXT NOT NULL
+                );
+            `);
+            // Rows indexed before this version are claimed by their root on startup.
+            await addColumn(db, 'files', 'rootId', 'TEXT');
+            await addColumn(db, 'folders', 'rootId', 'TEXT');
+            await db.exec(`CREATE INDEX IF NOT EXISTS idx_root_id ON files(rootId);`);
+        },
+    },
+    {
+        version: 9,
+        description: 'Mark files with the scan that last saw them',
+        async up(db) {
+            // Rows without a generation predate this version and are swept by the
+            // next full scan of their root unless it lists them again.
+            await addColumn(db, 'files', 'refreshGeneration', 'INTEGER');
+            await db.exec(`
+                CREATE INDEX IF NOT EXISTS idx_root_generation
+                ON files(rootId, refreshGeneration);
+            `);
+        },
+    },
+    {
+        version: 10,
+        description: 'Store the path of each folder',
+        async up(db) {
+            // Paths are filled in on startup for folders saved before this version.
+            await addColumn(db, 'folders', 'path', 'TEXT');
+            await db.exec(`
+                CREATE INDEX IF NOT EXISTS idx_folders_root_id ON folders(rootId);
+            `);
+        },
+    },
+    {
+        version: 11,
+        description: 'Fold diacritics in the search indexes and list indexed words',
+        destructive: true,
+        async up(db) {
+            // The indexes only hold data derived from files and file_contents, so
+            // they are recreated with the new tokenizer and rebuilt. The triggers
+            // that keep them up to date refer to them by name and carry over.
+            // Normalized folder paths are filled in on startup.
+            await addColumn(db, 'folders', 'searchPath', 'TEXT');
+            await db.exec(`
+                DROP TABLE IF EXISTS files_fts;
+                CREATE VIRTUAL TABLE files_fts USING fts5(
+                    name,
+                    content = 'files',
+                    content_rowid = 'rowid',
+                    tokenize = 'unicode61 remove_diacritics 2'
+                );
+                INSERT INTO files_fts (files_fts) VALUES ('rebuild');
+
+                DROP TABLE IF EXISTS contents_fts;
+                CREATE VIRTUAL TABLE contents_fts USING fts5(
+                    content,
+                    content = 'file_contents',
+                    content_rowid = 'rowid',
+                    tokenize = 'unicode61 remove_diacritics 2'
+                );
+                INSERT INTO contents_fts (contents_fts) VALUES ('rebuild');
+
+                CREATE VIRTUAL TABLE IF NOT EXISTS files_fts_vocab
+                USING fts5vocab(files_fts, 'row');
+            `);
+        },
+    },
+    {
+        version: 12,
+        description: 'Extract the content of changed files again and retry failures',
+        async up(db) {
+            // Failures used to be stored as empty content and never retried; they
+            // get one more attempt.
+            await db.exec(`
+                CREATE TABLE IF NOT EXISTS content_failures (
+                    id TEXT PRIMARY KEY,
+                    attempts INTEGER NOT NULL,
+                    failedAt TEXT NOT NULL
+                );
+
+                CREATE TRIGGER IF NOT EXISTS files_content_failures_delete AFTER DELETE ON files BEGIN
+                    DELETE FROM content_failures WHERE id = old.id;
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS files_contents_outdated
+                AFTER UPDATE OF md5Checksum, modifiedTime ON files
+                WHEN old.md5Checksum IS NOT new.md5Checksum
+                    OR old.modifiedTime IS NOT new.modifiedTime
+                BEGIN
+                    DELETE FROM file_contents WHERE id = new.id;
+                    DELETE FROM content_failures WHERE id = new.id;
+                END;
+
+                INSERT OR IGNORE INTO content_failures (id, attempts, failedAt)
+                SELECT id, 1, extractedAt FROM file_contents WHERE content = '';
+                DELETE FROM file_contents WHERE content = '';
+            `);
+        },
+    },
+    {
+        version: 13,
+        description: 'Record when downloaded copies were written',
+        async up(db) {
+            // Copies downloaded before this version are hashed once on their next
+            // use, and their time is recorded then.
+            await addColumn(db, 'files', 'localMtimeMs', 'INTEGER');
+        },
+    },
+    {
+        version: 14,
+        description: 'Count changes to the search indexes',
+        async up(db) {
+            // Relevance scores and the words fuzzy matching draws on depend on every
+            // indexed file, so search cursors check this counter.
+            await db.exec(`
+                INSERT OR IGNORE INTO metadata (key, value) VALUES ('searchIndexVersion', '0');
+
+                CREATE TRIGGER IF NOT EXISTS search_index_files_insert AFTER INSERT ON files BEGIN
+                    UPDATE metadata SET value = value + 1 WHERE key = 'searchIndexVersion';
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS search_index_files_delete AFTER DELETE ON files BEGIN
+                    UPDATE metadata SET value = value + 1 WHERE key = 'searchIndexVersion';
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS search_index_files_update AFTER UPDATE OF name ON files
+                WHEN old.name IS NOT new.name
+                BEGIN
+                    UPDATE metadata SET value = value + 1 WHERE key = 'searchIndexVersion';
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS search_index_contents_insert AFTER INSERT ON file_contents BEGIN
+                    UPDATE metadata SET value = value + 1 WHERE key = 'searchIndexVersion';
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS search_index_contents_delete AFTER DELETE ON file_contents BEGIN
+                    UPDATE metadata SET value = value + 1 WHERE key = 'searchIndexVersion';
+                END;
+
+                CREATE TRIGGER IF NOT EXISTS search_index_contents_update AFTER UPDATE OF content ON file_contents
+                WHEN old.content IS NOT new.content
+                BEGIN
+                    UPDATE metadata SET value = value + 1 WHERE key = 'searchIndexVersion';
+                END;
+            `);
+        },
+    },
+];
+
+export class SchemaMigrator {
+    private db: SQLiteDB;
+    private databasePath: string;
+    private logger: Logger;
+
+    constructor(db: SQLiteDB, databasePath: string, logger: Logger) {
+        this.db = db;
+        this.databasePath = databasePath;
+        this.logger = logger;
+    }
+
+    /**
+     * Brings the database schema up to the latest version.
+     * Each pending migration runs in its own transaction and is recorded in the
+     * schema_version table once it succeeds.
+     */
+    async migrate(): Promise<void> {
+        await this.db.exec(`
+            CREATE TABLE IF NOT EXISTS schema_version (
+                version INTEGER PRIMARY KEY,
+                description TEXT NOT NULL,
+                appliedAt TEXT NOT NULL
+            );
+        `);
+
+        const currentVersion = await this.getCurrentVersion();
+        const latestVersion = migrations[migrations.length - 1].version;
+
+        if (currentVersion > latestVersion) {
+            throw new DatabaseVersionError(currentVersion, latestVersion);
+        }
+
+        const pending = migrations.filter(
+            migration => migration.version > currentVersion
+        );
+        if (pending.length === 0) {
+            return;
+        }
+
+        this.logger.info(
+            `Migrating database schema from version ${currentVersion} to ${latestVersion}...`
+        );
+
+        // A database created by this run holds nothing worth backing up yet.
+        let appliedVersion = currentVersion;
+        for (const migration of pending) {
+            if (migration.destructive && currentVersion > 0) {
+                await this.backup(appliedVersion);
+            }
+
+            await this.apply(migration);
+            appliedVersion = migration.version;
+        }
+
+        this.logger.info(`Database schema is at version ${latestVersion}.`);
+    }
+
+    /**
+     * Reads the version of the schema currently on disk.
+     * @returns The latest applied migration version, or 0 for a new database.
+     */
+    private async getCurrentVersion(): Promise<number> {
+        const row = await this.db.get<{version: number | null}>(
+            `SELECT MAX(version) AS version FROM schema_version;`
+        );
+        return row?.version ?? 0;
+    }
+
+    /**
+     * Runs a single migration and records it inside one transaction.
+     * @param migration The migration to apply.
+     */
+    private async apply(migration: Migration): Promise<void> {
+        try {
+            await this.db.run('BEGIN TRANSACTION;');
+            await migration.up(this.db);
+            await this.db.run(
+                `INSERT INTO schema_version (version, description, appliedAt)
+                 VALUES (?, ?, ?);`,
+                [migration.version, migration.description, new Date().toISOString()]
+            );
+            await this.db.run('COMMIT;');
+            this.logger.info(
+                `Applied migration ${migration.version}: ${migration.description}.`
+            );
+        } catch (err) {
+            await this.db.run('ROLLBACK;');
+            this.logger.error(`Error applying migration ${migration.version}:`, err);
+            throw new Error(
+                `Failed to apply migration ${migration.version} (${migration.description}): ${(err as Error).message}`
+            );
+        }
+    }
+
+    /**
+     * Copies the database file next to itself before a destructive migration.
+     * @param version The schema version the backup holds.
+     */
+    private async backup(version: number): Promise<void> {
+        if (this.databasePath === ':memory:') {
+            return;
+        }
+
+        const backupPath = `${this.databasePath}.v${version}.${Date.now()}.bak`;
+        await fs.copyFile(this.databasePath, backupPath);
+        this.logger.info(
+            `Backed up database schema version ${version} to ${backupPath}.`
+        );
+    }
+}
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import {SearchOptionsError} from '@/errors';
+
+export type CursorKey = [fuzzy: number, value: string | number, id: string];
+
+export interface SearchCursor {
+    // The sort position of the last file of the previous page.
+    key: CursorKey;
+    // Whether the first page included fuzzy matches, so later pages do too.
+    fuzzy: boolean;
+    // Identifies the search the cursor belongs to.
+    search: string;
+    // The version of the search indexes the page was read from.
+    indexVersion: string;
+}
+
+/**
+ * Identifies a search, so that a cursor is not used with another one.
+ * @param search The query and every option that changes the results or their order.
+ * @returns A short hash.
+ */
+export function fingerprintSearch(search: unknown): string {
+    return crypto
+        .createHash('sha256')
+        .update(JSON.stringify(search))
+        .digest('base64url')
+        .slice(0, 16);
+}
+
+/**
+ * Encodes a cursor as an opaque string.
+ * @param cursor The cursor.
+ * @returns The encoded cursor.
+ */
+export function encodeCursor(cursor: SearchCursor): string {
+    return Buffer.from(
+        JSON.stringify([cursor.key, cursor.fuzzy, cursor.search, cursor.indexVersion])
+    ).toString('base64url');
+}
+
+/**
+ * Decodes a cursor returned by a previous page of the same search.
+ * @param encoded The encoded cursor.
+ * @param search The fingerprint of the current search.
+ * @returns The cursor.
+ * @throws SearchOptionsError when the cursor is malformed or belongs to another search.
+ */
+export function decodeCursor(encoded: string, search: string): SearchCursor {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+    } catch {
+        throw new SearchOptionsError('Invalid search cursor.');
+    }
+
+    if (
+        !Array.isArray(decoded) ||
+        !Array.isArray(decoded[0]) ||
+        decoded[0].length !== 3 ||
+        typeof decoded[0][0] !== 'number' ||
+        !['string', 'number'].includes(typeof decoded[0][1]) ||
+        typeof decoded[0][2] !== 'string' ||
+        typeof decoded[1] !== 'boolean' ||
+        typeof decoded[3] !== 'string'
+    ) {
+        throw new SearchOptionsError('Invalid search cursor.');
+    }
+    if (decoded[2] !== search) {
+        throw new SearchOptionsError(
+            'The search cursor belongs to another query or sort order; start again from the first page.'
+        );
+    }
+
+    return {
+        key: decoded[0] as CursorKey,
+        fuzzy: decoded[1],
+        search,
+        indexVersion: decoded[3],
+    };
+}
@@ -0,0 +1,79 @@
+import {SearchOptionsError} from '@/errors';
+import {SearchFilters} from '@/types';
+import {
+    QueryNode,
+    RangeColumn,
+    RangeOperator,
+    buildDateRange,
+    combine,
+    parseSize,
+} from './parser';
+
+/**
+ * Turns structured search filters into the same tree the query parser builds.
+ * @param filters The filters.
+ * @returns The conditions, or null if no filter is set.
+ * @throws SearchOptionsError when a date or size cannot be read.
+ */
+export function buildFilterQuery(filters: SearchFilters): QueryNode | null {
+    const nodes: QueryNode[] = [];
+
+    const addValues = (
+        type: 'extension' | 'mimeType' | 'folder' | 'owner',
+        values: string | string[] | undefined
+    ) => {
+        const list = (Array.isArray(values) ? values : values ? [values] : [])
+            .map(value => (type === 'extension' ? value.replace(/^\./, '') : value))
+            .filter(value => value !== '');
+        const node = combine(
+            'or',
+            list.map(value => ({type, value}))
+        );
+        if (node) nodes.push(node);
+    };
+
+    const addDate = (
+        name: keyof SearchFilters,
+        column: RangeColumn,
+        operator: RangeOperator,
+        value: string | Date | undefined
+    ) => {
+        if (value === undefined) return;
+        const node =
+            value instanceof Date
+                ? Number.isNaN(value.getTime())
+                    ? null
+                    : buildDateRange(column, operator, value.toISOString())
+                : buildDateRange(column, operator, value);
+        if (!node) {
+            throw new SearchOptionsError(`Invalid ${name} filter: ${String(value)}`);
+        }
+        nodes.push(node);
+    };
+
+    const addSize = (
+        name: keyof SearchFilters,
+        operator: RangeOperator,
+        value: number | string | undefined
+    ) => {
+        if (value === undefined) return;
+        const bytes = typeof value === 'number' ? value : parseSize(value);
+        if (bytes === null || !Number.isFinite(bytes) || bytes < 0) {
+            throw new SearchOptionsError(`Invalid ${name} filter: ${value}`);
+        }
+        nodes.push({type: 'range', column: 'size', operator, value: bytes});
+    };
+
+    addValues('extension', filters.extension);
+    addValues('mimeType', filters.mimeType);
+    addValues('folder', filters.folder);
+    addValues('owner', filters.owner);
+    addDate('modifiedAfter', 'modifiedTime', '>', filters.modifiedAfter);
+    addDate('modifiedBefore', 'modifiedTime', '<', filters.modifiedBefore);
+    addDate('createdAfter', 'createdTime', '>', filters.createdAfter);
+    addDate('createdBefore', 'createdTime', '<', filters.createdBefore);
+    addSize('minSize', '>=', filters.minSize);
+    addSize('maxSize', '<=', filters.maxSize);
+
+    return combine('and', nodes);
+}
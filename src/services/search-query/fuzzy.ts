@@ -0,0 +1,147 @@
+import {normalizeForSearch} from '@/utils';
+import {QueryNode} from './parser';
+
+// Words shorter than this are not corrected; too many words are one edit away.
+const MIN_FUZZY_LENGTH = 4;
+const MAX_CORRECTIONS = 10;
+
+export interface VocabularyTerm {
+    term: string;
+    // The number of files the term appears in.
+    doc: number;
+}
+
+/**
+ * Collects the words a fuzzy search may correct: plain words the query looks
+ * for, not phrases or negated words.
+ * @param node The parsed query.
+ * @returns The normalized words.
+ */
+export function collectFuzzyWords(node: QueryNode | null): string[] {
+    if (!node) return [];
+
+    switch (node.type) {
+        case 'text': {
+            const word = normalizeForSearch(node.value);
+            return !node.phrase &&
+                word.length >= MIN_FUZZY_LENGTH &&
+                /^[\p{L}\p{N}]+$/u.test(word)
+                ? [word]
+                : [];
+        }
+        case 'and':
+        case 'or':
+            return [...new Set(node.nodes.flatMap(collectFuzzyWords))];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Picks the indexed terms close enough to a word to be taken for typos of it.
+ * Words are matched as prefixes, as in exact searches, so a term only needs to
+ * start with something close to the word. One edit is allowed for words of up
+ * to seven characters and two for longer ones.
+ * @param word The normalized word.
+ * @param vocabulary The indexed terms.
+ * @returns The closest terms, most common first among equally close ones.
+ */
+export function findCorrections(word: string, vocabulary: VocabularyTerm[]): string[] {
+    const maxEdits = word.length >= 8 ? 2 : 1;
+
+    return vocabulary
+        .map(entry => ({
+            ...entry,
+            distance: prefixEditDistance(word, entry.term, maxEdits),
+        }))
+        .filter(entry => entry.distance > 0 && entry.distance <= maxEdits)
+        .sort((a, b) => a.distance - b.distance || b.doc - a.doc)
+        .slice(0, MAX_CORRECTIONS)
+        .map(entry => entry.term);
+}
+
+/**
+ * Replaces each corrected word of a query with the word or any of its corrections.
+ * @param node The parsed query.
+ * @param corrections The corrections of each normalized word.
+ * @returns The expanded query.
+ */
+export function expandFuzzyWords(
+    node: QueryNode,
+    corrections: Map<string, string[]>
+): QueryNode {
+    switch (node.type) {
+        case 'text': {
+            const terms = node.phrase
+                ? undefined
+                : corrections.get(normalizeForSearch(node.value));
+            return terms
+                ? {
+                      type: 'or',
+                      nodes: [
+                          node,
+                          ...terms.map(term => ({
+                              type: 'text' as const,
+                              value: term,
+                              phrase: false,
+                          })),
+                      ],
+                  }
+                : node;
+        }
+        case 'and':
+        case 'or':
+            return {
+                type: node.type,
+                nodes: node.nodes.map(child => expandFuzzyWords(child, corrections)),
+            };
+        default:
+            return node;
+    }
+}
+
+/**
+ * Computes the edit distance between a word and the closest prefix of a term,
+ * counting insertions, deletions, substitutions and swaps of adjacent letters.
+ * @param word The word.
+ * @param term The term.
+ * @param maxEdits The distance past which the exact value does not matter.
+ * @returns The distance, or maxEdits + 1 if it is larger than maxEdits.
+ */
+export function prefixEditDistance(word: string, term: string, maxEdits: number): number {
+    if (term.length < word.length - maxEdits) {
+        return maxEdits + 1;
+    }
+
+    // rows[i][j] is the distance between the first i letters of the word and the
+    // first j letters of the term.
+    const rows: number[][] = [Array.from({length: term.length + 1}, (_, j) => j)];
+    for (let i = 1; i <= word.length; i++) {
+        const row = [i];
+        let rowMin = i;
+        for (let j = 1; j <= term.length; j++) {
+            const cost = word[i - 1] === term[j - 1] ? 0 : 1;
+            let distance = Math.min(
+                rows[i - 1][j] + 1,
+                row[j - 1] + 1,
+                rows[i - 1][j - 1] + cost
+            );
+            if (
+                i > 1 &&
+                j > 1 &&
+                word[i - 1] === term[j - 2] &&
+                word[i - 2] === term[j - 1]
+            ) {
+                distance = Math.min(distance, rows[i - 2][j - 2] + 1);
+            }
+            row.push(distance);
+            rowMin = Math.min(rowMin, distance);
+        }
+        if (rowMin > maxEdits) {
+            return maxEdits + 1;
+        }
+        rows.push(row);
+    }
+
+    return Math.min(...rows[word.length]);
+}
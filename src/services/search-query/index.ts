@@ -0,0 +1,10 @@
+export {parseQuery, combine, QueryNode} from './parser';
+export {buildFilterQuery} from './filters';
+export {
+    collectFuzzyWords,
+    expandFuzzyWords,
+    findCorrections,
+    VocabularyTerm,
+} from './fuzzy';
+export {CursorKey, decodeCursor, encodeCursor, fingerprintSearch} from './cursor';
+export {compileQuery, CompiledQuery} from './sql-compiler';
@@ -0,0 +1,406 @@
+import {QueryParseError} from '@/errors';
+
+export type RangeColumn = 'modifiedTime' | 'createdTime' | 'size';
+export type RangeOperator = '<' | '<=' | '>' | '>=' | '=';
+
+export type QueryNode =
+    | {type: 'text'; value: string; phrase: boolean}
+    | {type: 'extension'; value: string}
+    | {type: 'mimeType'; value: string}
+    | {type: 'folder'; value: string}
+    | {type: 'owner'; value: string}
+    | {
+          type: 'range';
+          column: RangeColumn;
+          operator: RangeOperator;
+          value: string | number;
+      }
+    | {type: 'not'; node: QueryNode}
+    | {type: 'and'; nodes: QueryNode[]}
+    | {type: 'or'; nodes: QueryNode[]};
+
+type FilterField = 'extension' | 'mimeType' | 'folder' | 'owner' | RangeColumn;
+
+const FIELDS: Record<string, FilterField> = {
+    ext: 'extension',
+    extension: 'extension',
+    mime: 'mimeType',
+    type: 'mimeType',
+    in: 'folder',
+    folder: 'folder',
+    owner: 'owner',
+    modified: 'modifiedTime',
+    created: 'createdTime',
+    size: 'size',
+};
+
+const SIZE_UNITS: Record<string, number> = {
+    b: 1,
+    kb: 1024,
+    kib: 1024,
+    mb: 1024 ** 2,
+    mib: 1024 ** 2,
+    gb: 1024 ** 3,
+    gib: 1024 ** 3,
+    tb: 1024 ** 4,
+    tib: 1024 ** 4,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Token {
+    kind: 'word' | 'phrase' | 'not' | 'open' | 'close';
+    value: string;
+    // Whether part of a word was quoted, as in in:"Year 2".
+    quoted: boolean;
+    position: number;
+}
+
+/**
+ * Parses a search query into a tree of text terms and filters.
+ *
+ * Words and "quoted phrases" match file names and contents. Filters take the
+ * form field:value, or field>value and the like for dates and sizes: ext:pdf,
+ * mime:image/*, in:"Year 2", owner:alice, modified>2025-01-01, size<10MB.
+ * Terms are combined with AND; OR binds adjacent terms, -term negates a term,
+ * and parentheses group terms.
+ * @param query The query as typed by the user.
+ * @returns The parsed query, or null if it has no terms.
+ * @throws QueryParseError when the query is not valid.
+ */
+export function parseQuery(query: string): QueryNode | null {
+    return new QueryParser(query).parse();
+}
+
+/**
+ * Turns a date filter into range conditions. A bare date covers the whole day
+ * in UTC, so modified>2025-01-01 starts the day after.
+ * @param column The date column.
+ * @param operator The comparison.
+ * @param value The date or date-time.
+ * @returns The conditions, or null if the value is not a date.
+ */
+export function buildDateRange(
+    column: RangeColumn,
+    operator: RangeOperator,
+    value: string
+): QueryNode | null {
+    const range = (op: RangeOperator, time: string): QueryNode => ({
+        type: 'range',
+        column,
+        operator: op,
+        value: time,
+    });
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        const start = Date.parse(`${value}T00:00:00.000Z`);
+        if (Number.isNaN(start)) return null;
+        const dayStart = new Date(start).toISOString();
+        const nextDay = new Date(start + DAY_MS).toISOString();
+
+        switch (operator) {
+            case '>':
+                return range('>=', nextDay);
+            case '>=':
+                return range('>=', dayStart);
+            case '<':
+                return range('<', dayStart);
+            case '<=':
+                return range('<', nextDay);
+            default:
+                return {
+                    type: 'and',
+                    nodes: [range('>=', dayStart), range('<', nextDay)],
+                };
+        }
+    }
+
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : range(operator, new Date(time).toISOString());
+}
+
+/**
+ * Reads a size such as 10MB, 1.5 GiB or 500 into bytes. Units are powers of 1024.
+ * @param value The size.
+ * @returns The number of bytes, or null if the value is not a size.
+ */
+export function parseSize(value: string): number | null {
+    const match = value.match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/i);
+    if (!match) return null;
+
+    const unit = SIZE_UNITS[(match[2] || 'b').toLowerCase()];
+    return unit ? Math.round(Number(match[1]) * unit) : null;
+}
+
+class QueryParser {
+    private query: string;
+    private tokens: Token[] = [];
+    private index = 0;
+
+    constructor(query: string) {
+        this.query = query;
+    }
+
+    /**
+     * Tokenizes and parses the whole query.
+     * @returns The parsed query, or null if it has no terms.
+     */
+    public parse(): QueryNode | null {
+        this.tokens = this.tokenize();
+        const node = this.parseSequence();
+
+        const extra = this.peek();
+        if (extra) {
+            throw this.error('Unexpected ")"', extra.position);
+        }
+        return node;
+    }
+
+    /**
+     * Parses terms up to the end of the query or a closing parenthesis.
+     * @returns The terms combined with AND, or null if there are none.
+     */
+    private parseSequence(): QueryNode | null {
+        const nodes: QueryNode[] = [];
+        while (this.peek() && this.peek()!.kind !== 'close') {
+            const node = this.parseOr();
+            if (node) nodes.push(node);
+        }
+        return combine('and', nodes);
+    }
+
+    /**
+     * Parses one term, or several joined by OR.
+     * @returns The term or alternatives, or null if they have no searchable text.
+     */
+    private parseOr(): QueryNode | null {
+        const first = this.peek()!;
+        if (this.isOr(first)) {
+            throw this.error('Expected a term before OR', first.position);
+        }
+
+        const nodes: (QueryNode | null)[] = [this.parseUnary()];
+        while (this.peek() && this.isOr(this.peek()!)) {
+            const or = this.next()!;
+            const following = this.peek();
+            if (!following || following.kind === 'close' || this.isOr(following)) {
+                throw this.error('Expected a term after OR', or.position);
+            }
+            nodes.push(this.parseUnary());
+        }
+
+        // A term without searchable text matches everything, and so does any
+        // alternative it is part of.
+        return nodes.includes(null) ? null : combine('or', nodes as QueryNode[]);
+    }
+
+    /**
+     * Parses a term, negated if it starts with a minus sign.
+     * @returns The term, or null if it has no searchable text.
+     */
+    private parseUnary(): QueryNode | null {
+        const token = this.next()!;
+
+        if (token.kind === 'not') {
+            const following = this.peek();
+            if (!following || following.kind === 'close' || this.isOr(following)) {
+                throw this.error('Expected a term after "-"', token.position);
+            }
+            const node = this.parseUnary();
+            return node ? {type: 'not', node} : null;
+        }
+
+        if (token.kind === 'open') {
+            const node = this.parseSequence();
+            if (this.next()?.kind !== 'close') {
+                throw this.error('Unclosed parenthesis', token.position);
+            }
+            if (!node) {
+                throw this.error('Empty parentheses', token.position);
+            }
+            return node;
+        }
+
+        if (token.kind === 'close') {
+            throw this.error('Unexpected ")"', token.position);
+        }
+
+        if (token.kind === 'phrase') {
+            return hasSearchableText(token.value)
+                ? {type: 'text', value: token.value, phrase: true}
+                : null;
+        }
+
+        return this.parseWord(token);
+    }
+
+    /**
+     * Parses a plain word or a field filter.
+     * @param token The word.
+     * @returns The term, or null if it has no searchable text.
+     */
+    private parseWord(token: Token): QueryNode | null {
+        const match = token.value.match(/^([a-z]+)(:|>=|<=|>|<|=)([\s\S]*)$/i);
+        if (!match) {
+            if (token.quoted) {
+                throw this.error('Unexpected quote', token.position);
+            }
+            return hasSearchableText(token.value)
+                ? {type: 'text', value: token.value, phrase: false}
+                : null;
+        }
+
+        const [, name, operatorText, value] = match;
+        const field = FIELDS[name.toLowerCase()];
+        const valuePosition = token.position + name.length + operatorText.length;
+        if (!field) {
+            throw this.error(`Unknown filter "${name}"`, token.position);
+        }
+        if (value === '') {
+            throw this.error(
+                `Expected a value after "${name}${operatorText}"`,
+                valuePosition
+            );
+        }
+
+        const operator = (operatorText === ':' ? '=' : operatorText) as RangeOperator;
+
+        switch (field) {
+            case 'extension':
+            case 'mimeType':
+            case 'folder':
+            case 'owner':
+                if (operator !== '=') {
+                    throw this.error(
+                        `The "${name}" filter only supports ":"`,
+                        token.position + name.length
+                    );
+                }
+                return {
+                    type: field,
+                    value: field === 'extension' ? value.replace(/^\./, '') : value,
+                };
+            case 'size': {
+                const bytes = parseSize(value);
+                if (bytes === null) {
+                    throw this.error(`Invalid size "${value}"`, valuePosition);
+                }
+                return {type: 'range', column: 'size', operator, value: bytes};
+            }
+            default: {
+                const range = buildDateRange(field, operator, value);
+                if (!range) {
+                    throw this.error(`Invalid date "${value}"`, valuePosition);
+                }
+                return range;
+            }
+        }
+    }
+
+    /**
+     * Splits the query into words, phrases, minus signs and parentheses.
+     * @returns The tokens.
+     */
+    private tokenize(): Token[] {
+        const tokens: Token[] = [];
+        const query = this.query;
+        let i = 0;
+
+        while (i < query.length) {
+            const char = query[i];
+            if (/\s/.test(char)) {
+                i++;
+            } else if (char === '(' || char === ')') {
+                tokens.push({
+                    kind: char === '(' ? 'open' : 'close',
+                    value: char,
+                    quoted: false,
+                    position: i,
+                });
+                i++;
+            } else if (
+                char === '-' &&
+                i + 1 < query.length &&
+                !/[\s()-]/.test(query[i + 1])
+            ) {
+                tokens.push({kind: 'not', value: char, quoted: false, position: i});
+                i++;
+            } else if (char === '"') {
+                const end = this.findClosingQuote(i);
+                tokens.push({
+                    kind: 'phrase',
+                    value: query.slice(i + 1, end),
+                    quoted: true,
+                    position: i,
+                });
+                i = end + 1;
+            } else {
+                const start = i;
+                let value = '';
+                let quoted = false;
+                while (i < query.length && !/[\s()]/.test(query[i])) {
+                    if (query[i] === '"') {
+                        const end = this.findClosingQuote(i);
+                        value += query.slice(i + 1, end);
+                        quoted = true;
+                        i = end + 1;
+                    } else {
+                        value += query[i++];
+                    }
+                }
+                tokens.push({kind: 'word', value, quoted, position: start});
+            }
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Finds the quote that closes the one at the given position.
+     * @param start The position of the opening quote.
+     * @returns The position of the closing quote.
+     */
+    private findClosingQuote(start: number): number {
+        const end = this.query.indexOf('"', start + 1);
+        if (end === -1) {
+            throw this.error('Unterminated quote', start);
+        }
+        return end;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token | undefined {
+        return this.tokens[this.index++];
+    }
+
+    private isOr(token: Token): boolean {
+        return token.kind === 'word' && !token.quoted && token.value === 'OR';
+    }
+
+    private error(message: string, position: number): QueryParseError {
+        return new QueryParseError(message, this.query, position);
+    }
+}
+
+/**
+ * Joins nodes with AND or OR, unwrapping a single node.
+ * @param type How to join the nodes.
+ * @param nodes The nodes.
+ * @returns The joined node, or null if there are no nodes.
+ */
+export function combine(type: 'and' | 'or', nodes: QueryNode[]): QueryNode | null {
+    if (nodes.length === 0) return null;
+    return nodes.length === 1 ? nodes[0] : {type, nodes};
+}
+
+/**
+ * Checks whether a term has letters or digits the full-text index can match.
+ * @param value The term.
+ * @returns True if the term can be searched for.
+ */
+function hasSearchableText(value: string): boolean {
+    return /[\p{L}\p{N}]/u.test(value);
+}
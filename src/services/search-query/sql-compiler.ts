@@ -0,0 +1,140 @@
+import {normalizeForSearch} from '@/utils';
+import {QueryNode} from './parser';
+
+export interface CompiledQuery {
+    // A condition on the files table, with ? placeholders.
+    where: string;
+    params: (string | number)[];
+    // An FTS5 expression matching any of the words and phrases the query looks
+    // for, used to rank the results. Null if the query has none.
+    rankMatch: string | null;
+}
+
+/**
+ * Compiles a parsed query into a parameterized condition on the files table.
+ * Values are always bound as parameters; only whitelisted column names and
+ * operators are written into the SQL.
+ * @param node The parsed query, or null to match every file.
+ * @returns The condition, its parameters and the expression used for ranking.
+ */
+export function compileQuery(node: QueryNode | null): CompiledQuery {
+    if (!node) {
+        return {where: '1', params: [], rankMatch: null};
+    }
+
+    const params: (string | number)[] = [];
+    const where = compileNode(node, params);
+    const rankTerms = collectRankTerms(node);
+
+    return {
+        where,
+        params,
+        rankMatch: rankTerms.length > 0 ? rankTerms.join(' OR ') : null,
+    };
+}
+
+/**
+ * Compiles one node, appending its parameters in the order they appear.
+ * @param node The node.
+ * @param params The parameters collected so far.
+ * @returns The SQL condition.
+ */
+function compileNode(node: QueryNode, params: (string | number)[]): string {
+    switch (node.type) {
+        case 'text': {
+            const match = toFtsTerm(node.value, node.phrase);
+            params.push(match, match);
+            return `(files.rowid IN (SELECT rowid FROM files_fts WHERE files_fts MATCH ?)
+                OR files.id IN (
+                    SELECT file_contents.id FROM contents_fts
+                    JOIN file_contents ON file_contents.rowid = contents_fts.rowid
+                    WHERE contents_fts MATCH ?
+                ))`;
+        }
+        case 'extension':
+            params.push(node.value);
+            return 'files.fileExtension = ? COLLATE NOCASE';
+        case 'mimeType': {
+            const prefix = node.value.endsWith('/*')
+                ? node.value.slice(0, -2)
+                : node.value.includes('/')
+                  ? null
+                  : node.value;
+            if (prefix === null) {
+                params.push(node.value);
+                return 'files.mimeType = ? COLLATE NOCASE';
+            }
+            params.push(`${escapeLike(prefix)}/%`);
+            return "files.mimeType LIKE ? ESCAPE '\\'";
+        }
+        case 'folder':
+            // Matches whole folder names, or a run of them such as "Year 2/Physics",
+            // anywhere in the path of any parent, ignoring case and diacritics.
+            params.push(
+                `%/${escapeLike(normalizeForSearch(node.value).replace(/^\/+|\/+$/g, ''))}/%`
+            );
+            return `EXISTS (
+                SELECT 1 FROM json_each(files.parents)
+                JOIN folders ON folders.id = json_each.value
+                WHERE '/' || folders.searchPath || '/' LIKE ? ESCAPE '\\'
+            )`;
+        case 'owner': {
+            const pattern = `%${escapeLike(node.value)}%`;
+            params.push(pattern, pattern);
+            return `EXISTS (
+                SELECT 1 FROM json_each(files.owners)
+                WHERE json_extract(json_each.value, '$.emailAddress') LIKE ? ESCAPE '\\'
+                    OR json_extract(json_each.value, '$.displayName') LIKE ? ESCAPE '\\'
+            )`;
+        }
+        case 'range':
+            params.push(node.value);
+            return `files.${node.column} ${node.operator} ?`;
+        case 'not':
+            // A filter on a missing value is NULL, and a negated one must still match.
+            return `NOT COALESCE((${compileNode(node.node, params)}), 0)`;
+        case 'and':
+        case 'or':
+            return `(${node.nodes
+                .map(child => compileNode(child, params))
+                .join(node.type === 'and' ? ' AND ' : ' OR ')})`;
+    }
+}
+
+/**
+ * Collects the words and phrases that are not negated, to rank results by.
+ * @param node The parsed query.
+ * @returns The FTS5 terms.
+ */
+function collectRankTerms(node: QueryNode): string[] {
+    switch (node.type) {
+        case 'text':
+            return [toFtsTerm(node.value, node.phrase)];
+        case 'and':
+        case 'or':
+            return node.nodes.flatMap(collectRankTerms);
+        default:
+            return [];
+    }
+}
+
+/**
+ * Quotes a word or phrase for FTS5, so operators typed by the user are treated
+ * as plain text. Words match as prefixes; phrases match their words in order.
+ * @param value The word or phrase.
+ * @param phrase Whether the value was quoted in the query.
+ * @returns The FTS5 term.
+ */
+function toFtsTerm(value: string, phrase: boolean): string {
+    const quoted = `"${value.replace(/"/g, '""')}"`;
+    return phrase ? quoted : `${quoted}*`;
+}
+
+/**
+ * Escapes the wildcards of a LIKE pattern, for use with ESCAPE '\'.
+ * @param value The literal text.
+ * @returns The escaped text.
+ */
+function escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
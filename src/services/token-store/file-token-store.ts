@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import {StoredToken, TokenStore} from '@/types';
+import {ensureDirectoryExists} from '@/utils';
+import {logger} from '@/utils/logger';
+
+/**
+ * Environment variable read for the encryption key when none is passed in.
+ */
+export const TOKEN_KEY_ENV = 'GDRIVEVAULT_TOKEN_KEY';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+
+interface EncryptedToken {
+    algorithm: typeof ALGORITHM;
+    salt: string | null;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+export interface FileTokenStoreOptions {
+    // A 32-byte key is used as is; a string is treated as a passphrase.
+    encryptionKey?: string | Buffer;
+}
+
+export class FileTokenStore implements TokenStore {
+    private filePath: string;
+    private encryptionKey: string | Buffer | null;
+    private warnedUnencrypted = false;
+
+    constructor(filePath: string, options: FileTokenStoreOptions = {}) {
+        this.filePath = filePath;
+        this.encryptionKey = options.encryptionKey || process.env[TOKEN_KEY_ENV] || null;
+    }
+
+    /**
+     * Reads the token from disk. Plain JSON files written before encryption was
+     * enabled are still read, and are encrypted the next time the token is saved.
+     * @returns The token, or null if none is saved.
+     */
+    async load(): Promise<StoredToken | null> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.filePath, 'utf-8');
+        } catch (err) {
+            if ((err as {code?: string}).code === 'ENOENT') {
+                return null;
+            }
+            throw err;
+        }
+
+        const parsed = JSON.parse(content);
+        if (parsed.algorithm !== ALGORITHM) {
+            return parsed as StoredToken;
+        }
+
+        if (!this.encryptionKey) {
+            throw new Error(
+                `The token at ${this.filePath} is encrypted; set ${TOKEN_KEY_ENV} or pass an encryption key.`
+            );
+        }
+        return this.decrypt(parsed as EncryptedToken);
+    }
+
+    /**
+     * Writes the token to disk, encrypted when a key is configured. The file is
+     * replaced atomically and readable by its owner only. Without a key, a
+     * warning is logged the first time the token is saved in plain text.
+     * @param token The token to save.
+     */
+    async save(token: StoredToken): Promise<void> {
+        if (!this.encryptionKey && !this.warnedUnencrypted) {
+            logger.warn(
+                `Saving the token at ${this.filePath} unencrypted; set ${TOKEN_KEY_ENV} or pass an encryption key to encrypt it.`
+            );
+            this.warnedUnencrypted = true;
+        }
+
+        const payload = this.encryptionKey
+            ? JSON.stringify(this.encrypt(token))
+            : JSON.stringify(token);
+
+        await ensureDirectoryExists(path.dirname(this.filePath));
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tempPath, payload, {mode: 0o600});
+        await fs.rename(tempPath, this.filePath);
+        logger.info('Token saved.');
+    }
+
+    /**
+     * Deletes the token file.
+     */
+    async clear(): Promise<void> {
+        await fs.rm(this.filePath, {force: true});
+    }
+
+    /**
+     * Encrypts a token with AES-256-GCM.
+     * @param token The token to encrypt.
+     * @returns The encrypted token and the values needed to decrypt it.
+     */
+    private encrypt(token: StoredToken): EncryptedToken {
+        const salt = this.isRawKey() ? null : crypto.randomBytes(16);
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv(ALGORITHM, this.deriveKey(salt), iv);
+        const data = Buffer.concat([
+            cipher.update(JSON.stringify(token), 'utf-8'),
+            cipher.final(),
+        ]);
+
+        return {
+            algorithm: ALGORITHM,
+            salt: salt ? salt.toString('base64') : null,
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64'),
+        };
+    }
+
+    /**
+     * Decrypts a token written by encrypt.
+     * @param encrypted The encrypted token.
+     * @returns The token.
+     */
+    private decrypt(encrypted: EncryptedToken): StoredToken {
+        const salt = encrypted.salt ? Buffer.from(encrypted.salt, 'base64') : null;
+
+        try {
+            // A token saved with a raw key cannot be opened with a passphrase.
+            if (salt === null && !this.isRawKey()) {
+                throw new Error('Key type mismatch.');
+            }
+            const decipher = crypto.createDecipheriv(
+                ALGORITHM,
+                this.deriveKey(salt),
+                Buffer.from(encrypted.iv, 'base64')
+            );
+            decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+
+            const data = Buffer.concat([
+                decipher.update(Buffer.from(encrypted.data, 'base64')),
+                decipher.final(),
+            ]);
+            return JSON.parse(data.toString('utf-8'));
+        } catch {
+            throw new Error(
+                `Failed to decrypt the token at ${this.filePath}; the encryption key is wrong.`
+            );
+        }
+    }
+
+    /**
+     * Checks whether the configured key is a raw 32-byte key.
+     * @returns True for a raw key, false for a passphrase.
+     */
+    private isRawKey(): boolean {
+        return (
+            Buffer.isBuffer(this.encryptionKey) &&
+            this.encryptionKey.length === KEY_LENGTH
+        );
+    }
+
+    /**
+     * Turns the configured key into an AES-256 key.
+     * @param salt The salt for passphrases, or null for a raw key.
+     * @returns The 32-byte key.
+     */
+    private deriveKey(salt: Buffer | null): Buffer {
+        if (salt === null) {
+            return this.encryptionKey as Buffer;
+        }
+        return crypto.scryptSync(this.encryptionKey!, salt, KEY_LENGTH);
+    }
+}
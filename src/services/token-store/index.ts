@@ -0,0 +1,2 @@
+export {FileTokenStore, FileTokenStoreOptions, TOKEN_KEY_ENV} from './file-token-store';
+export {MemoryTokenStore} from './memory-token-store';
@@ -0,0 +1,32 @@
+import {StoredToken, TokenStore} from '@/types';
+
+export class MemoryTokenStore implements TokenStore {
+    private token: StoredToken | null;
+
+    constructor(token: StoredToken | null = null) {
+        this.token = token;
+    }
+
+    /**
+     * Returns the token held in memory.
+     * @returns The token, or null if none is held.
+     */
+    async load(): Promise<StoredToken | null> {
+        return this.token;
+    }
+
+    /**
+     * Replaces the token held in memory.
+     * @param token The token to hold.
+     */
+    async save(token: StoredToken): Promise<void> {
+        this.token = token;
+    }
+
+    /**
+     * Forgets the token held in memory.
+     */
+    async clear(): Promise<void> {
+        this.token = null;
+    }
+}
@@ -1,15 +1,81 @@
+import type {OAuth2Client} from 'google-auth-library';
+
+export type ContentIndexingMode = 'off' | 'refresh' | 'download';
+
+export type FileNamingStrategy = 'id' | 'name' | 'id-name';
+
+export interface CacheConfig {
+    maxBytes?: number;
+    maxAgeMs?: number;
+}
+
+export interface RequestPolicy {
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    maxRequestsPerSecond?: number;
+}
+
+export interface TraversalOptions {
+    maxDepth?: number;
+    concurrency?: number;
+}
+
+export interface RequestStats {
+    requests: number;
+    retries: number;
+    rateLimited: number;
+    throttled: number;
+    failed: number;
+}
+
+export type AuthConfig =
+    | {type: 'browser'}
+    | {type: 'headless'; promptCode?: (authUrl: string) => Promise<string>}
+    | {type: 'service-account'; keyFile?: string; subject?: string}
+    | {type: 'client'; client: OAuth2Client};
+
+export interface StoredToken {
+    type: 'authorized_user';
+    client_id: string;
+    client_secret: string;
+    refresh_token: string | null;
+    access_token?: string | null;
+    expiry_date?: number | null;
+}
+
+export interface TokenStore {
+    load(): Promise<StoredToken | null>;
+    save(token: StoredToken): Promise<void>;
+    clear(): Promise<void>;
+}
+
 export interface DriveFileManagerConfig {
-    folderId: string;
+    folderId?: string;
+    folderIds?: string[];
     tokenPath?: string;
     credentialsPath?: string;
     databasePath?: string;
     downloadsPath?: string;
     logsPath?: string;
+    contentIndexing?: ContentIndexingMode;
+    fileNaming?: FileNamingStrategy;
+    cache?: CacheConfig;
+    auth?: AuthConfig;
+    tokenStore?: TokenStore;
+    requests?: RequestPolicy;
+    traversal?: TraversalOptions;
 }
 
 export interface InternalDriveFileManagerConfig extends DriveFileManagerConfig {
     tokenPath: string;
     credentialsPath: string;
+    tokenStore: TokenStore;
+}
+
+export interface FileOwner {
+    displayName: string;
+    emailAddress: string | null;
 }
 
 export interface GoogleFile {
@@ -17,16 +83,236 @@ export interface GoogleFile {
     name: string;
     parents: string[];
     webViewLink: string;
+    mimeType: string;
+    size: number | null;
+    modifiedTime: string | null;
+    createdTime: string | null;
+    md5Checksum: string | null;
+    fileExtension: string | null;
+    version: number | null;
+    owners: FileOwner[];
+}
+
+export interface GoogleFolder {
+    id: string;
+    name: string;
+    parents: string[];
 }
 
 export interface DatabaseFile {
     id: string;
     name: string;
-    parents: string | null;
+    parents: string[] | null;
+    rootId: string | null;
     webViewLink: string;
+    mimeType: string | null;
+    size: number | null;
+    modifiedTime: string | null;
+    createdTime: string | null;
+    md5Checksum: string | null;
+    fileExtension: string | null;
+    version: number | null;
+    owners: FileOwner[];
+    localPath: string | null;
+    localSize: number | null;
+    // When the local copy was last written on disk, in milliseconds since the epoch.
+    localMtimeMs: number | null;
+    localModifiedTime: string | null;
+    localMd5Checksum: string | null;
+    localVersion: number | null;
+    lastAccessedAt: string | null;
+    pinned: boolean;
+    stale: boolean;
+    path: string;
+    score?: number;
+    snippet?: string | null;
+    // Set on search results that only match with a misspelled word corrected.
+    fuzzy?: boolean;
+}
+
+export interface PendingContentFile {
+    id: string;
+    name: string;
+    mimeType: string;
+}
+
+export type ExportFormat =
+    | 'pdf'
+    | 'docx'
+    | 'xlsx'
+    | 'pptx'
+    | 'odt'
+    | 'ods'
+    | 'odp'
+    | 'rtf'
+    | 'epub'
+    | 'html'
+    | 'txt'
+    | 'csv'
+    | 'tsv'
+    | 'png'
+    | 'jpg'
+    | 'svg';
+
+export type StalenessPolicy = 'refetch' | 'allow';
+
+export interface DownloadOptions {
+    exportFormat?: ExportFormat;
+    staleness?: StalenessPolicy;
+}
+
+export interface DownloadedVersion {
+    modifiedTime: string | null;
+    md5Checksum: string | null;
+    version: number | null;
+}
+
+export interface DownloadedFile extends DownloadedVersion {
+    localPath: string;
+}
+
+export interface DriveChange {
+    fileId: string;
+    removed: boolean;
+    trashed: boolean;
+    isFolder: boolean;
+    file: GoogleFile | null;
+}
+
+export interface DriveChangeSet {
+    changes: DriveChange[];
+    newStartPageToken: string;
+}
+
+export type RefreshMode = 'full' | 'incremental';
+
+export interface RootFolder {
+    id: string;
+    name: string | null;
+    addedAt: string;
+}
+
+/**
+ * Filters for searchFiles, the structured form of the query syntax. A bare date
+ * covers the whole day in UTC, so modifiedAfter: '2025-01-01' starts the day after.
+ * Sizes are bytes or strings such as '10MB'. Lists match any of their values.
+ */
+export interface SearchFilters {
+    extension?: string | string[];
+    mimeType?: string | string[];
+    folder?: string | string[];
+    owner?: string | string[];
+    modifiedAfter?: string | Date;
+    modifiedBefore?: string | Date;
+    createdAfter?: string | Date;
+    createdBefore?: string | Date;
+    minSize?: number | string;
+    maxSize?: number | string;
+}
+
+export type SearchOrder = 'relevance' | 'name' | 'modifiedTime' | 'size';
+
+export interface SearchOptions {
+    rootId?: string;
+    folderId?: string;
+    filters?: SearchFilters;
+    // Whether to look for misspelled words when few files match. Defaults to true.
+    fuzzy?: boolean;
+    // The number of files per page, 50 by default and at most 1000.
+    limit?: number;
+    // The nextCursor of the previous page.
+    cursor?: string;
+    // The number of files to skip, as an alternative to a cursor.
+    offset?: number;
+    // Defaults to relevance for queries with words or phrases, and name otherwise.
+    orderBy?: SearchOrder;
+    // Defaults to desc for relevance, most relevant first, and asc otherwise.
+    direction?: 'asc' | 'desc';
+}
+
+export interface SearchPage {
+    results: DatabaseFile[];
+    // The number of files matching the search across all pages.
+    total: number;
+    // Pass as cursor to get the next page; null on the last page.
+    nextCursor: string | null;
+}
+
+export interface DatabaseFolder {
+    id: string;
+    name: string;
+    parents: string[];
+    rootId: string | null;
+    path: string | null;
+}
+
+export interface FolderChildren {
+    folders: DatabaseFolder[];
+    files: DatabaseFile[];
 }
 
 export interface RefreshResult {
     totalFiles: number;
     newFiles: number;
+    mode: RefreshMode;
+    scannedRoots: string[];
+}
+
+export interface CachedFile {
+    id: string;
+    localPath: string;
+    localSize: number | null;
+    lastAccessedAt: string | null;
+    pinned: boolean;
+}
+
+export interface CacheUsage {
+    totalBytes: number;
+    fileCount: number;
+    pinnedBytes: number;
+    pinnedCount: number;
+    maxBytes: number | null;
+    maxAgeMs: number | null;
+}
+
+export interface PurgeCacheOptions {
+    includePinned?: boolean;
+}
+
+export interface MirrorOptions {
+    deleteRemoved?: boolean;
+}
+
+export interface MirrorFailure {
+    fileId: string;
+    name: string;
+    error: string;
+}
+
+export interface MirrorResult {
+    downloaded: number;
+    skipped: number;
+    deleted: number;
+    unsupported: number;
+    // Paths left alone because a file the mirror did not write is already there.
+    untracked: string[];
+    failed: MirrorFailure[];
+}
+
+export interface UploadOptions {
+    parentFolderId?: string;
+    name?: string;
+    mimeType?: string;
+}
+
+export interface UpdateFileOptions {
+    name?: string;
+    mimeType?: string;
+}
+
+export interface ServerOptions {
+    port?: number;
+    host?: string;
+    // Requests must send one of these keys, unless the list is empty.
+    apiKeys?: string[];
 }
@@ -1,5 +1,7 @@
 import path from 'path';
 import fs from 'fs/promises';
+import {createReadStream} from 'fs';
+import crypto from 'crypto';
 
 /**
  * Escapes single quotes in a string to prevent SQL injection.
@@ -19,6 +21,35 @@ export function escapeQueryString(str: string): string {
     return str.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
 }
 
+/**
+ * Folds case and strips diacritics, so that "Mecánica" and "mecanica" compare equal.
+ * @param text The text to normalize.
+ * @returns The normalized text.
+ */
+export function normalizeForSearch(text: string): string {
+    return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Makes a string safe to use as a file name on Windows, macOS and Linux.
+ * Replaces reserved and control characters, trims trailing dots and spaces,
+ * guards against reserved device names and caps the length.
+ * @param name The raw file name.
+ * @returns The sanitized file name, possibly empty.
+ */
+export function sanitizeFileName(name: string): string {
+    const sanitized = name
+        .replace(/[<>:"/\\|?*\p{Cc}]/gu, '_')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/[. ]+$/, '')
+        .slice(0, 200);
+
+    return /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i.test(sanitized)
+        ? `_${sanitized}`
+        : sanitized;
+}
+
 /**
  * Ensures that the directory of a file path exists.
  * @param filePath The file path.
@@ -52,3 +83,66 @@ export function chunkArray<T>(array: T[], size: number): T[][] {
     }
     return chunks;
 }
+
+/**
+ * Maps items through an async function, running at most `limit` calls at once.
+ * @param items The items to map.
+ * @param limit The maximum number of calls in flight.
+ * @param fn The function to apply.
+ * @returns The results, in the order of the items.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+
+    await Promise.all(
+        Array.from({length: Math.min(Math.max(1, limit), items.length)}, worker)
+    );
+    return results;
+}
+
+/**
+ * Waits for the given number of milliseconds.
+ * @param ms The delay in milliseconds.
+ */
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Gets the size of a file, treating a missing file as empty.
+ * @param filePath The path of the file.
+ * @returns The size in bytes.
+ */
+export async function getFileSize(filePath: string): Promise<number> {
+    try {
+        const stats = await fs.stat(filePath);
+        return stats.size;
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * Computes the MD5 checksum of a file, as reported by Drive in md5Checksum.
+ * @param filePath The path of the file.
+ * @returns The hex-encoded checksum.
+ */
+export async function computeFileMd5(filePath: string): Promise<string> {
+    const hash = crypto.createHash('md5');
+    for await (const chunk of createReadStream(filePath)) {
+        hash.update(chunk);
+    }
+    return hash.digest('hex');
+}
@@ -5,6 +5,8 @@ import {createLogger, format, transports} from 'winston';
 export class Logger {
     private loggerInstance!: ReturnType<typeof createLogger>;
     private logsPath: string;
+    private consoleOutput: 'stdout' | 'stderr' | 'off' =
+        process.env.NODE_ENV !== 'production' ? 'stdout' : 'off';
 
     constructor() {
         this.logsPath = path.join(process.cwd(), 'logs');
@@ -16,6 +18,16 @@ export class Logger {
         this.initializeLogger();
     }
 
+    /**
+     * Chooses where log messages are printed besides the log files. Outside of
+     * production they go to stdout by default.
+     * @param output The stream to print to, or 'off' to only write the log files.
+     */
+    setConsoleOutput(output: 'stdout' | 'stderr' | 'off') {
+        this.consoleOutput = output;
+        this.initializeLogger();
+    }
+
     private initializeLogger() {
         if (!fs.existsSync(this.logsPath)) {
             fs.mkdirSync(this.logsPath, {recursive: true});
@@ -42,10 +54,12 @@ export class Logger {
             ],
         });
 
-        if (process.env.NODE_ENV !== 'production') {
+        if (this.consoleOutput !== 'off') {
             this.loggerInstance.add(
                 new transports.Console({
                     format: format.combine(format.colorize(), format.simple()),
+                    stderrLevels:
+                        this.consoleOutput === 'stderr' ? ['error', 'warn', 'info'] : [],
                 })
             );
         }
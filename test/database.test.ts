@@ -0,0 +1,62 @@
+import path from 'path';
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {FolderDatabase} from '@/services/database';
+import {GoogleDriveService} from '@/services/google-drive';
+import {GoogleFile} from '@/types';
+import {makeFile, makeLogger, makeTempDir} from './helpers';
+
+const ROOT_ID = 'root0000000000000000000000000';
+const LISTED_ID = 'listed00000000000000000000000';
+const UPLOADED_ID = 'uploaded000000000000000000000';
+const CREATED_FOLDER_ID = 'created000000000000000000000';
+
+test('writes made while a root is scanned are kept along with the scanned page', async t => {
+    const directory = await makeTempDir(t);
+    let database: FolderDatabase;
+
+    // Lists one page, and uploads a file and creates a folder while it is written.
+    const drive = {
+        getStartPageToken: async () => '1',
+        fetchFolderTree: async () => ({
+            driveId: null,
+            folders: [{id: ROOT_ID, name: 'Root', parents: []}],
+        }),
+        streamFilesInFolders: async (
+            _folderIds: string[],
+            _driveId: string | null,
+            onPage: (files: GoogleFile[]) => Promise<void>
+        ) => {
+            await Promise.all([
+                onPage([makeFile(LISTED_ID, 'listed.pdf', ROOT_ID)]),
+                database.updateDatabase(
+                    [makeFile(UPLOADED_ID, 'uploaded.pdf', ROOT_ID)],
+                    ROOT_ID
+                ),
+                database.saveFolders(
+                    [{id: CREATED_FOLDER_ID, name: 'Created', parents: [ROOT_ID]}],
+                    ROOT_ID
+                ),
+                database.updateLocalFilePath(UPLOADED_ID, '/downloads/uploaded.pdf'),
+            ]);
+            return 1;
+        },
+    } as unknown as GoogleDriveService;
+
+    database = new FolderDatabase(
+        drive,
+        [ROOT_ID],
+        {},
+        path.join(directory, 'database.sqlite'),
+        makeLogger(directory)
+    );
+    await database.initDatabase();
+    t.after(() => database.closeDatabase());
+
+    await database.refresh();
+
+    assert.ok(await database.getFile(LISTED_ID));
+    const uploaded = await database.getFile(UPLOADED_ID);
+    assert.equal(uploaded?.localPath, '/downloads/uploaded.pdf');
+    assert.ok(await database.getFolder(CREATED_FOLDER_ID));
+});
@@ -0,0 +1,56 @@
+import path from 'path';
+import fs from 'fs/promises';
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {FolderMirror} from '@/services/folder-mirror';
+import {FolderDatabase} from '@/services/database';
+import {GoogleDriveService} from '@/services/google-drive';
+import {GoogleFile, GoogleFolder} from '@/types';
+import {makeFile, makeLogger, makeTempDir} from './helpers';
+
+const ROOT_ID = 'root0000000000000000000000000';
+const YEAR_ID = 'year0000000000000000000000000';
+const TERM_ID = 'term0000000000000000000000000';
+const NOTES_ID = 'notes000000000000000000000000';
+const KEPT_ID = 'kept0000000000000000000000000';
+
+test('deleteRemoved removes the directories that removed files leave empty', async t => {
+    const directory = await makeTempDir(t);
+    const destination = path.join(directory, 'mirror');
+
+    let folders: GoogleFolder[] = [
+        {id: ROOT_ID, name: 'Root', parents: []},
+        {id: YEAR_ID, name: 'Year 2', parents: [ROOT_ID]},
+        {id: TERM_ID, name: 'Term 1', parents: [YEAR_ID]},
+    ];
+    let files: GoogleFile[] = [
+        makeFile(NOTES_ID, 'notes.pdf', TERM_ID),
+        makeFile(KEPT_ID, 'kept.pdf', ROOT_ID),
+    ];
+
+    const database = {
+        getFolders: async () => folders,
+        getFilesInFolders: async (folderIds: string[]) =>
+            files.filter(file => file.parents.some(id => folderIds.includes(id))),
+    } as unknown as FolderDatabase;
+    const drive = {
+        downloadFileToPath: async (_fileId: string, filePath: string) => {
+            await fs.mkdir(path.dirname(filePath), {recursive: true});
+            await fs.writeFile(filePath, 'pdf');
+        },
+    } as unknown as GoogleDriveService;
+    const mirror = new FolderMirror(drive, database, makeLogger(directory));
+
+    await mirror.mirror(ROOT_ID, destination);
+    await fs.access(path.join(destination, 'Year 2', 'Term 1', 'notes.pdf'));
+
+    folders = folders.filter(folder => folder.id === ROOT_ID);
+    files = files.filter(file => file.id === KEPT_ID);
+    const result = await mirror.mirror(ROOT_ID, destination, {deleteRemoved: true});
+
+    assert.equal(result.deleted, 1);
+    assert.deepEqual((await fs.readdir(destination)).sort(), [
+        '.gdrivevault-mirror.json',
+        'kept.pdf',
+    ]);
+});
@@ -0,0 +1,52 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import {Logger} from '@/utils/logger';
+import {GoogleFile} from '@/types';
+
+/**
+ * Creates a temporary directory, removed once the test finishes.
+ * @param t The running test.
+ * @returns The path of the directory.
+ */
+export async function makeTempDir(t: {after: (fn: () => Promise<void>) => void}) {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'gdrivevault-'));
+    t.after(() => fs.rm(directory, {recursive: true, force: true}));
+    return directory;
+}
+
+/**
+ * Creates a logger that only writes to files in the given directory.
+ * @param directory Where the log files go.
+ * @returns The logger.
+ */
+export function makeLogger(directory: string): Logger {
+    const logger = new Logger();
+    logger.setConsoleOutput('off');
+    logger.setLogsPath(directory);
+    return logger;
+}
+
+/**
+ * Builds the Drive metadata of a file.
+ * @param id The ID of the file, at least 25 characters like Drive IDs.
+ * @param name The name of the file.
+ * @param parentId The ID of its folder.
+ * @returns The file.
+ */
+export function makeFile(id: string, name: string, parentId: string): GoogleFile {
+    return {
+        id,
+        name,
+        parents: [parentId],
+        webViewLink: `https://drive.google.com/file/d/${id}/view`,
+        mimeType: 'application/pdf',
+        size: 3,
+        modifiedTime: '2024-01-01T00:00:00.000Z',
+        createdTime: '2024-01-01T00:00:00.000Z',
+        md5Checksum: null,
+        fileExtension: 'pdf',
+        version: 1,
+        owners: [],
+    };
+}
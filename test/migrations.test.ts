@@ -0,0 +1,20 @@
+import path from 'path';
+import fs from 'fs/promises';
+import sqlite3 from 'sqlite3';
+import {open} from 'sqlite';
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {SchemaMigrator} from '@/services/migrations';
+import {makeLogger, makeTempDir} from './helpers';
+
+test('a new database is not backed up before destructive migrations', async t => {
+    const directory = await makeTempDir(t);
+    const databasePath = path.join(directory, 'database.sqlite');
+    const db = await open({filename: databasePath, driver: sqlite3.Database});
+    t.after(() => db.close());
+
+    await new SchemaMigrator(db, databasePath, makeLogger(directory)).migrate();
+
+    const backups = (await fs.readdir(directory)).filter(name => name.endsWith('.bak'));
+    assert.deepEqual(backups, []);
+});